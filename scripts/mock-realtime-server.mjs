@@ -0,0 +1,132 @@
+// Local stand-in for the backend's change feed: serves WebSocket (/ws) and SSE (/events)
+// and broadcasts whatever is POSTed to /emit. No dependencies beyond Node itself.
+//
+//   node scripts/mock-realtime-server.mjs [--sse-only]
+//   curl -X POST localhost:8001/emit -d '{"resource":"tasks","action":"updated","id":1,"record":{...},"actor":"alice"}'
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 8001;
+const SSE_ONLY = process.argv.includes('--sse-only');
+const HEARTBEAT_INTERVAL = 25_000;
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+const sseClients = new Set();
+const socketClients = new Set();
+
+// Unmasked text frame; the server never needs to fragment these small messages
+const encodeFrame = (text, opcode = 0x1) => {
+  const payload = Buffer.from(text);
+  const length = payload.length;
+  const header = length < 126
+    ? Buffer.from([0x80 | opcode, length])
+    : length < 65536
+      ? Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff])
+      : Buffer.concat([Buffer.from([0x80 | opcode, 127]), (() => {
+        const size = Buffer.alloc(8);
+        size.writeBigUInt64BE(BigInt(length));
+        return size;
+      })()]);
+  return Buffer.concat([header, payload]);
+};
+
+const broadcast = (event) => {
+  const data = JSON.stringify(event);
+  sseClients.forEach(response => response.write(`data: ${data}\n\n`));
+  socketClients.forEach(socket => socket.write(encodeFrame(data)));
+  console.log(`${event.resource} ${event.action} #${event.id} -> ${sseClients.size + socketClients.size} client(s)`);
+};
+
+const readBody = (request) => new Promise((resolve, reject) => {
+  let body = '';
+  request.on('data', chunk => {
+    body += chunk;
+  });
+  request.on('end', () => resolve(body));
+  request.on('error', reject);
+});
+
+const server = createServer(async (request, response) => {
+  const { pathname } = new URL(request.url ?? '/', `http://${request.headers.host}`);
+
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204, CORS_HEADERS).end();
+    return;
+  }
+
+  if (request.method === 'GET' && pathname === '/events') {
+    response.writeHead(200, {
+      ...CORS_HEADERS,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    response.write(': connected\n\n');
+    sseClients.add(response);
+    request.on('close', () => sseClients.delete(response));
+    return;
+  }
+
+  if (request.method === 'POST' && pathname === '/emit') {
+    try {
+      const parsed = JSON.parse(await readBody(request));
+      const events = Array.isArray(parsed) ? parsed : [parsed];
+      events.forEach(broadcast);
+      response.writeHead(202, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ sent: events.length, clients: sseClients.size + socketClients.size }));
+    } catch (error) {
+      response.writeHead(400, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ detail: `Invalid JSON: ${error.message}` }));
+    }
+    return;
+  }
+
+  response.writeHead(404, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+  response.end(JSON.stringify({ detail: 'Not found' }));
+});
+
+server.on('upgrade', (request, socket) => {
+  const { pathname } = new URL(request.url ?? '/', `http://${request.headers.host}`);
+  const key = request.headers['sec-websocket-key'];
+  // Refusing the upgrade makes the client fall back to SSE
+  if (SSE_ONLY || pathname !== '/ws' || !key) {
+    socket.destroy();
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    '',
+  ].join('\r\n'));
+  socketClients.add(socket);
+
+  // Clients only send control frames here; answer a close and ignore the rest
+  socket.on('data', chunk => {
+    if ((chunk[0] & 0x0f) === 0x8) {
+      socket.end(encodeFrame('', 0x8));
+    }
+  });
+  socket.on('close', () => socketClients.delete(socket));
+  socket.on('error', () => socketClients.delete(socket));
+});
+
+// Keeps proxies from closing idle connections
+setInterval(() => {
+  sseClients.forEach(response => response.write(': ping\n\n'));
+  socketClients.forEach(socket => socket.write(encodeFrame('', 0x9)));
+}, HEARTBEAT_INTERVAL).unref();
+
+server.listen(PORT, () => {
+  console.log(`Mock realtime server on http://localhost:${PORT} (${SSE_ONLY ? 'SSE only' : 'WebSocket and SSE'})`);
+});
@@ -2,11 +2,19 @@ import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-d
 import { ThemeProvider, createTheme } from '@mui/material/styles';
 import { CssBaseline } from '@mui/material';
 import { AuthProvider } from './contexts/AuthContext';
+import { NotificationProvider } from './contexts/NotificationContext';
 import { ProtectedRoute } from './components/ProtectedRoute';
+import { RequirePermission } from './components/RequirePermission';
 import { Layout } from './components/Layout';
 import { LoginPage } from './pages/LoginPage';
+import { DashboardPage } from './pages/DashboardPage';
 import { EmployeePage } from './pages/EmployeePage';
+import { EmployeeDetailPage } from './pages/EmployeeDetailPage';
 import { TaskPage } from './pages/TaskPage';
+import { TaskCalendarPage } from './pages/TaskCalendarPage';
+import { CustomFieldsPage } from './pages/CustomFieldsPage';
+import { DepartmentsPage } from './pages/DepartmentsPage';
+import { OrgChartPage } from './pages/OrgChartPage';
 
 const theme = createTheme({
   palette: {
@@ -26,25 +34,54 @@ function App() {
   return (
     <ThemeProvider theme={theme}>
       <CssBaseline />
-      <AuthProvider>
-        <Router>
-          <Routes>
-            <Route path="/" element={<LoginPage />} />
-            <Route
-              path="/*"
-              element={
-                <ProtectedRoute>
-                  <Layout />
-                </ProtectedRoute>
-              }
-            >
-              <Route path="employees" element={<EmployeePage />} />
-              <Route path="tasks" element={<TaskPage />} />
-              <Route path="*" element={<Navigate to="/employees" replace />} />
-            </Route>
-          </Routes>
-        </Router>
-      </AuthProvider>
+      <NotificationProvider>
+        <AuthProvider>
+          <Router>
+            <Routes>
+              <Route path="/" element={<LoginPage />} />
+              <Route
+                path="/*"
+                element={
+                  <ProtectedRoute>
+                    <Layout />
+                  </ProtectedRoute>
+                }
+              >
+                <Route path="dashboard" element={<DashboardPage />} />
+                <Route path="employees" element={<EmployeePage />} />
+                <Route path="employees/:id" element={<EmployeeDetailPage />} />
+                <Route
+                  path="departments"
+                  element={
+                    <ProtectedRoute permission="departments:manage">
+                      <DepartmentsPage />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="org-chart"
+                  element={
+                    <ProtectedRoute permission="org_chart:view">
+                      <OrgChartPage />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route path="tasks" element={<TaskPage />} />
+                <Route path="tasks/calendar" element={<TaskCalendarPage />} />
+                <Route
+                  path="settings/custom-fields"
+                  element={
+                    <RequirePermission permission="custom_fields:manage" fallback={<Navigate to="/dashboard" replace />}>
+                      <CustomFieldsPage />
+                    </RequirePermission>
+                  }
+                />
+                <Route path="*" element={<Navigate to="/dashboard" replace />} />
+              </Route>
+            </Routes>
+          </Router>
+        </AuthProvider>
+      </NotificationProvider>
     </ThemeProvider>
   );
 }
@@ -0,0 +1,131 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  FormControl,
+  FormHelperText,
+  InputLabel,
+  ListItemIcon,
+  ListItemText,
+  Menu,
+  MenuItem,
+  Select
+} from '@mui/material';
+import { AutoAwesome, WarningAmber } from '@mui/icons-material';
+import { Controller, useWatch } from 'react-hook-form';
+import type { Control } from 'react-hook-form';
+import type { CreateTask, Employee, Task } from '../services/api';
+import {
+  getEmployeeWorkloads,
+  getOverallocationWarning,
+  describeWorkload,
+  suggestAssignees
+} from '../utils/workload';
+
+interface AssigneeFieldProps {
+  control: Control<CreateTask>;
+  employees: Employee[];
+  // Every task, to count each employee's open work
+  tasks: Task[];
+  // Task being edited, which does not count against its own assignee
+  taskId?: number;
+  disabled?: boolean;
+}
+
+const SUGGESTION_COUNT = 3;
+
+// Assignee select showing each employee's open work, with suggestions based on workload, department and due date
+export const AssigneeField: React.FC<AssigneeFieldProps> = ({ control, employees, tasks, taskId, disabled = false }) => {
+  const dueDate = useWatch({ control, name: 'due_date' });
+  const department = useWatch({ control, name: 'department' });
+  const [suggestAnchor, setSuggestAnchor] = useState<HTMLElement | null>(null);
+  const workloads = useMemo(
+    () => getEmployeeWorkloads(employees, tasks, { taskId, dueDate }),
+    [employees, tasks, taskId, dueDate]
+  );
+  const suggestions = useMemo(
+    () => suggestAnchor ? suggestAssignees(workloads, department).slice(0, SUGGESTION_COUNT) : [],
+    [suggestAnchor, workloads, department]
+  );
+
+  return (
+    <Controller
+      name="employee_id"
+      control={control}
+      render={({ field, fieldState }) => {
+        const selected = field.value !== undefined ? workloads.get(field.value) : undefined;
+        const warning = selected ? getOverallocationWarning(selected) : null;
+
+        return (
+          <Box>
+            <FormControl fullWidth margin="dense" variant="outlined" error={!!fieldState.error}>
+              <InputLabel>Assign to Employee</InputLabel>
+              <Select<number | ''>
+                value={field.value ?? ''}
+                onChange={(e) => field.onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+                onBlur={field.onBlur}
+                label="Assign to Employee"
+                disabled={disabled}
+                renderValue={(value) => {
+                  const employee = workloads.get(Number(value))?.employee;
+                  return employee ? `${employee.name} - ${employee.position}` : `#${value}`;
+                }}
+              >
+                <MenuItem value="">
+                  <em>Unassigned</em>
+                </MenuItem>
+                {employees.map((employee) => {
+                  const workload = workloads.get(employee.id);
+                  return (
+                    <MenuItem key={employee.id} value={employee.id}>
+                      <ListItemText
+                        primary={`${employee.name} - ${employee.position}`}
+                        secondary={workload && describeWorkload(workload)}
+                      />
+                      {workload && getOverallocationWarning(workload) && (
+                        <WarningAmber color="warning" fontSize="small" titleAccess="Over-allocated" />
+                      )}
+                    </MenuItem>
+                  );
+                })}
+              </Select>
+              {(fieldState.error || warning) && (
+                <FormHelperText sx={!fieldState.error ? { color: 'warning.main' } : undefined}>
+                  {fieldState.error?.message ?? warning}
+                </FormHelperText>
+              )}
+            </FormControl>
+
+            <Button
+              size="small"
+              startIcon={<AutoAwesome />}
+              onClick={(e) => setSuggestAnchor(e.currentTarget)}
+              disabled={disabled || employees.length === 0}
+            >
+              Suggest assignee
+            </Button>
+            <Menu anchorEl={suggestAnchor} open={!!suggestAnchor} onClose={() => setSuggestAnchor(null)}>
+              {suggestions.map((suggestion) => (
+                <MenuItem
+                  key={suggestion.employee.id}
+                  selected={suggestion.employee.id === field.value}
+                  onClick={() => {
+                    field.onChange(suggestion.employee.id);
+                    setSuggestAnchor(null);
+                  }}
+                >
+                  <ListItemText primary={suggestion.employee.name} secondary={suggestion.reasons.join(' · ')} />
+                  {getOverallocationWarning(suggestion) && (
+                    <ListItemIcon sx={{ ml: 1 }}>
+                      <WarningAmber color="warning" fontSize="small" titleAccess="Over-allocated" />
+                    </ListItemIcon>
+                  )}
+                </MenuItem>
+              ))}
+            </Menu>
+          </Box>
+        );
+      }}
+    />
+  );
+};
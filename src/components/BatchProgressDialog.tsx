@@ -0,0 +1,76 @@
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Typography,
+  CircularProgress
+} from '@mui/material';
+import { CheckCircle, ErrorOutline, HourglassEmpty } from '@mui/icons-material';
+import type { BatchItemResult } from '../utils/batch';
+
+interface BatchProgressDialogProps<T> {
+  open: boolean;
+  title: string;
+  results: BatchItemResult<T>[];
+  getLabel: (item: T) => string;
+  onClose: () => void;
+}
+
+export const BatchProgressDialog = <T,>({ open, title, results, getLabel, onClose }: BatchProgressDialogProps<T>) => {
+  const finished = results.filter(r => r.status !== 'pending').length;
+  const succeeded = results.filter(r => r.status === 'success').length;
+  const failed = results.filter(r => r.status === 'error').length;
+  const done = finished === results.length;
+
+  return (
+    <Dialog open={open} onClose={done ? onClose : undefined} maxWidth="sm" fullWidth>
+      <DialogTitle>{title}</DialogTitle>
+      <DialogContent>
+        <LinearProgress
+          variant="determinate"
+          value={results.length > 0 ? (finished / results.length) * 100 : 100}
+          color={failed > 0 ? 'warning' : 'primary'}
+          sx={{ mb: 1 }}
+        />
+        <Typography variant="body2" color="text.secondary" mb={1}>
+          {finished} of {results.length} processed · {succeeded} succeeded · {failed} failed
+        </Typography>
+
+        <List dense sx={{ maxHeight: 320, overflow: 'auto' }}>
+          {results.map((result, index) => (
+            <ListItem key={index}>
+              <ListItemIcon sx={{ minWidth: 36 }}>
+                {result.status === 'success' && <CheckCircle color="success" fontSize="small" />}
+                {result.status === 'error' && <ErrorOutline color="error" fontSize="small" />}
+                {result.status === 'pending' && <HourglassEmpty color="disabled" fontSize="small" />}
+              </ListItemIcon>
+              <ListItemText
+                primary={getLabel(result.item)}
+                secondary={result.error}
+                slotProps={{ secondary: { color: 'error' } }}
+              />
+            </ListItem>
+          ))}
+        </List>
+
+        {done && failed > 0 && (
+          <Typography variant="body2" color="text.secondary" mt={1}>
+            Failed items stay selected so you can retry them.
+          </Typography>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} variant="contained" disabled={!done}>
+          {done ? 'Close' : <CircularProgress size={24} />}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
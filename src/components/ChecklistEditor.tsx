@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Checkbox,
+  TextField,
+  IconButton,
+  Button,
+  LinearProgress
+} from '@mui/material';
+import { ArrowUpward, ArrowDownward, Delete, Add } from '@mui/icons-material';
+import { Controller, useFieldArray, useWatch } from 'react-hook-form';
+import type { Control } from 'react-hook-form';
+import { CHECKLIST_ITEM_MAX_LENGTH } from '../services/api';
+import type { CreateTask } from '../services/api';
+import { getChecklistProgress } from '../utils/taskUtils';
+
+interface ChecklistEditorProps {
+  control: Control<CreateTask>;
+  disabled?: boolean;
+}
+
+// Checklist section of the task form: tick, edit, reorder and remove items
+export const ChecklistEditor: React.FC<ChecklistEditorProps> = ({ control, disabled = false }) => {
+  // `id` belongs to the items themselves, so the field array keys its rows under another name
+  const { fields, append, remove, move } = useFieldArray({ control, name: 'checklist', keyName: 'key' });
+  const items = useWatch({ control, name: 'checklist' });
+  const progress = getChecklistProgress(items);
+  const [draft, setDraft] = useState('');
+
+  const handleAdd = () => {
+    const text = draft.trim();
+    if (!text) return;
+    append({ text, done: false, order: fields.length });
+    setDraft('');
+  };
+
+  return (
+    <Box mt={2}>
+      <Box display="flex" justifyContent="space-between" alignItems="baseline">
+        <Typography variant="subtitle2">Checklist</Typography>
+        {progress.total > 0 && (
+          <Typography variant="body2" color="text.secondary">
+            {progress.done}/{progress.total} done
+          </Typography>
+        )}
+      </Box>
+      {progress.total > 0 && (
+        <LinearProgress
+          variant="determinate"
+          value={(progress.done / progress.total) * 100}
+          color={progress.open === 0 ? 'success' : 'primary'}
+          sx={{ my: 1 }}
+        />
+      )}
+
+      {fields.map((item, index) => (
+        <Box key={item.key} display="flex" alignItems="flex-start" gap={0.5}>
+          <Controller
+            name={`checklist.${index}.done`}
+            control={control}
+            render={({ field }) => (
+              <Checkbox
+                checked={field.value}
+                onChange={(e) => field.onChange(e.target.checked)}
+                disabled={disabled}
+                size="small"
+                slotProps={{ input: { 'aria-label': `Item ${index + 1} done` } }}
+              />
+            )}
+          />
+          <Controller
+            name={`checklist.${index}.text`}
+            control={control}
+            render={({ field, fieldState }) => (
+              <TextField
+                {...field}
+                variant="standard"
+                fullWidth
+                margin="dense"
+                error={!!fieldState.error}
+                helperText={fieldState.error?.message}
+                disabled={disabled}
+                slotProps={{
+                  htmlInput: { maxLength: CHECKLIST_ITEM_MAX_LENGTH, 'aria-label': `Item ${index + 1}` },
+                  input: { sx: items?.[index]?.done ? { textDecoration: 'line-through', color: 'text.secondary' } : undefined },
+                }}
+              />
+            )}
+          />
+          <IconButton size="small" onClick={() => move(index, index - 1)} disabled={disabled || index === 0} title="Move up">
+            <ArrowUpward fontSize="small" />
+          </IconButton>
+          <IconButton
+            size="small"
+            onClick={() => move(index, index + 1)}
+            disabled={disabled || index === fields.length - 1}
+            title="Move down"
+          >
+            <ArrowDownward fontSize="small" />
+          </IconButton>
+          <IconButton size="small" onClick={() => remove(index)} disabled={disabled} title="Remove item">
+            <Delete fontSize="small" />
+          </IconButton>
+        </Box>
+      ))}
+
+      <Box display="flex" alignItems="center" gap={1} mt={1}>
+        <TextField
+          size="small"
+          fullWidth
+          placeholder="Add an item"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          disabled={disabled}
+          slotProps={{ htmlInput: { maxLength: CHECKLIST_ITEM_MAX_LENGTH } }}
+        />
+        <Button startIcon={<Add />} onClick={handleAdd} disabled={disabled || !draft.trim()}>
+          Add
+        </Button>
+      </Box>
+    </Box>
+  );
+};
@@ -0,0 +1,344 @@
+import React, { useState, useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Stepper,
+  Step,
+  StepLabel,
+  Typography,
+  Box,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  Chip,
+  Alert,
+  LinearProgress,
+  Stack
+} from '@mui/material';
+import { UploadFile, Download } from '@mui/icons-material';
+import { parseCsv, toCsv, downloadCsv } from '../utils/csv';
+import { runBatch } from '../utils/batch';
+
+export interface CsvImportField {
+  key: string;
+  label: string;
+  required?: boolean;
+}
+
+export interface ParsedCsvRow<T> {
+  record: T;
+  errors: Record<string, string>;
+}
+
+interface CsvImportDialogProps<T, R> {
+  open: boolean;
+  title: string;
+  fields: CsvImportField[];
+  // `earlier` holds the records of the valid rows above, e.g. to reject duplicates within the file
+  parseRow: (values: Record<string, string>, earlier: T[]) => ParsedCsvRow<T>;
+  create: (record: T) => Promise<R>;
+  onImported: (created: R[]) => void;
+  onClose: () => void;
+  reportFilename: string;
+}
+
+interface PreviewRow<T> extends ParsedCsvRow<T> {
+  line: number;
+  values: Record<string, string>;
+}
+
+interface RejectedRow {
+  line: number;
+  values: Record<string, string>;
+  reason: string;
+}
+
+const STEPS = ['Upload', 'Map columns', 'Preview', 'Import'];
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const CsvImportDialog = <T, R>({
+  open,
+  title,
+  fields,
+  parseRow,
+  create,
+  onImported,
+  onClose,
+  reportFilename,
+}: CsvImportDialogProps<T, R>) => {
+  const [step, setStep] = useState(0);
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<Record<string, number | ''>>({});
+  const [fileError, setFileError] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [processed, setProcessed] = useState(0);
+  const [createdCount, setCreatedCount] = useState(0);
+  const [rejected, setRejected] = useState<RejectedRow[]>([]);
+
+  const previewRows: PreviewRow<T>[] = useMemo(() => {
+    const earlier: T[] = [];
+    return dataRows.map((cells, index) => {
+      const values: Record<string, string> = {};
+      fields.forEach(field => {
+        const column = mapping[field.key];
+        values[field.key] = column === '' || column === undefined ? '' : (cells[column] ?? '').trim();
+      });
+      const parsed = parseRow(values, earlier);
+      if (Object.keys(parsed.errors).length === 0) earlier.push(parsed.record);
+      // Line numbers count the header row so they match what spreadsheets show
+      return { line: index + 2, values, ...parsed };
+    });
+  }, [dataRows, mapping, fields, parseRow]);
+
+  const validRows = previewRows.filter(row => Object.keys(row.errors).length === 0);
+  const invalidRows = previewRows.filter(row => Object.keys(row.errors).length > 0);
+  const missingRequired = fields.filter(f => f.required && (mapping[f.key] === '' || mapping[f.key] === undefined));
+
+  const reset = () => {
+    setStep(0);
+    setFileName('');
+    setHeaders([]);
+    setDataRows([]);
+    setMapping({});
+    setFileError('');
+    setProcessed(0);
+    setCreatedCount(0);
+    setRejected([]);
+  };
+
+  const handleClose = () => {
+    if (importing) return;
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const rows = parseCsv(await file.text());
+    if (rows.length < 2) {
+      setFileError('The file needs a header row and at least one data row.');
+      return;
+    }
+
+    const [headerRow, ...rest] = rows;
+    const autoMapping: Record<string, number | ''> = {};
+    fields.forEach(field => {
+      const index = headerRow.findIndex(h =>
+        normalize(h) === normalize(field.key) || normalize(h) === normalize(field.label));
+      autoMapping[field.key] = index >= 0 ? index : '';
+    });
+
+    setFileName(file.name);
+    setHeaders(headerRow);
+    setDataRows(rest);
+    setMapping(autoMapping);
+    setFileError('');
+    setStep(1);
+  };
+
+  const handleImport = async () => {
+    setStep(3);
+    setImporting(true);
+    const validationRejects: RejectedRow[] = invalidRows.map(row => ({
+      line: row.line,
+      values: row.values,
+      reason: Object.values(row.errors).join('; '),
+    }));
+    setRejected(validationRejects);
+
+    const results = await runBatch(validRows, row => create(row.record), () => setProcessed(p => p + 1));
+    const created = results.filter(r => r.status === 'success').map(r => r.value as R);
+    const serverRejects = results
+      .filter(r => r.status === 'error')
+      .map(r => ({ line: r.item.line, values: r.item.values, reason: r.error ?? 'Failed' }));
+
+    setRejected([...validationRejects, ...serverRejects].sort((a, b) => a.line - b.line));
+    setCreatedCount(created.length);
+    setImporting(false);
+    if (created.length > 0) onImported(created);
+  };
+
+  const handleDownloadReport = () => {
+    downloadCsv(reportFilename, toCsv(
+      ['line', ...fields.map(f => f.key), 'error'],
+      rejected.map(row => [row.line, ...fields.map(f => row.values[f.key]), row.reason])
+    ));
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>{title}</DialogTitle>
+      <DialogContent>
+        <Stepper activeStep={step} sx={{ mb: 3 }}>
+          {STEPS.map(label => (
+            <Step key={label}>
+              <StepLabel>{label}</StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+
+        {step === 0 && (
+          <Box textAlign="center" py={4}>
+            <Button variant="contained" component="label" startIcon={<UploadFile />}>
+              Choose CSV File
+              <input type="file" accept=".csv,text/csv" hidden onChange={handleFileChange} />
+            </Button>
+            <Typography variant="body2" color="text.secondary" mt={2}>
+              The first row must contain column headers.
+            </Typography>
+            {fileError && (
+              <Alert severity="error" sx={{ mt: 2 }}>
+                {fileError}
+              </Alert>
+            )}
+          </Box>
+        )}
+
+        {step === 1 && (
+          <>
+            <Typography variant="body2" color="text.secondary" mb={2}>
+              {fileName}: {dataRows.length} row{dataRows.length === 1 ? '' : 's'}. Choose which column feeds each field.
+            </Typography>
+            <Box display="grid" gridTemplateColumns="repeat(auto-fill, minmax(240px, 1fr))" gap={2}>
+              {fields.map(field => (
+                <FormControl key={field.key} size="small" fullWidth>
+                  <InputLabel>{field.label}{field.required ? ' *' : ''}</InputLabel>
+                  <Select<number | ''>
+                    value={mapping[field.key] ?? ''}
+                    onChange={(e) => setMapping(prev => ({ ...prev, [field.key]: e.target.value }))}
+                    label={`${field.label}${field.required ? ' *' : ''}`}
+                  >
+                    <MenuItem value="">
+                      <em>Not imported</em>
+                    </MenuItem>
+                    {headers.map((header, index) => (
+                      <MenuItem key={index} value={index}>
+                        {header || `Column ${index + 1}`}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              ))}
+            </Box>
+            {missingRequired.length > 0 && (
+              <Alert severity="warning" sx={{ mt: 2 }}>
+                Map a column for: {missingRequired.map(f => f.label).join(', ')}
+              </Alert>
+            )}
+          </>
+        )}
+
+        {step === 2 && (
+          <>
+            <Stack direction="row" spacing={1} mb={2}>
+              <Chip label={`${validRows.length} valid`} color="success" size="small" />
+              <Chip label={`${invalidRows.length} invalid`} color={invalidRows.length > 0 ? 'error' : 'default'} size="small" />
+            </Stack>
+            <TableContainer sx={{ maxHeight: 400 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Line</TableCell>
+                    {fields.map(field => (
+                      <TableCell key={field.key}>{field.label}</TableCell>
+                    ))}
+                    <TableCell>Status</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {previewRows.map(row => {
+                    const valid = Object.keys(row.errors).length === 0;
+                    return (
+                      <TableRow key={row.line}>
+                        <TableCell>{row.line}</TableCell>
+                        {fields.map(field => (
+                          <TableCell
+                            key={field.key}
+                            sx={row.errors[field.key] ? { color: 'error.main', fontWeight: 500 } : undefined}
+                            title={row.errors[field.key]}
+                          >
+                            {row.values[field.key]}
+                          </TableCell>
+                        ))}
+                        <TableCell>
+                          {valid ? (
+                            <Chip label="Valid" color="success" size="small" variant="outlined" />
+                          ) : (
+                            <Typography variant="caption" color="error">
+                              {Object.values(row.errors).join('; ')}
+                            </Typography>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </>
+        )}
+
+        {step === 3 && (
+          <>
+            <LinearProgress
+              variant="determinate"
+              value={validRows.length > 0 ? (processed / validRows.length) * 100 : 100}
+              sx={{ mb: 2 }}
+            />
+            {importing ? (
+              <Typography variant="body2" color="text.secondary">
+                Importing {processed} of {validRows.length}...
+              </Typography>
+            ) : (
+              <Alert severity={rejected.length > 0 ? 'warning' : 'success'}>
+                Imported {createdCount} row{createdCount === 1 ? '' : 's'}.
+                {rejected.length > 0 && ` ${rejected.length} row${rejected.length === 1 ? ' was' : 's were'} rejected.`}
+              </Alert>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {step === 3 && !importing && rejected.length > 0 && (
+          <Button startIcon={<Download />} onClick={handleDownloadReport} sx={{ mr: 'auto' }}>
+            Download rejected rows
+          </Button>
+        )}
+        {(step === 1 || step === 2) && (
+          <Button onClick={() => setStep(step - 1)}>
+            Back
+          </Button>
+        )}
+        <Button onClick={handleClose} disabled={importing}>
+          {step === 3 ? 'Close' : 'Cancel'}
+        </Button>
+        {step === 1 && (
+          <Button variant="contained" onClick={() => setStep(2)} disabled={missingRequired.length > 0}>
+            Preview
+          </Button>
+        )}
+        {step === 2 && (
+          <Button variant="contained" onClick={handleImport} disabled={validRows.length === 0}>
+            Import {validRows.length} row{validRows.length === 1 ? '' : 's'}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,211 @@
+import React, { useEffect } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  FormControlLabel,
+  Checkbox
+} from '@mui/material';
+import { useForm, useWatch, Controller } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import { apiService, ApiError, customFieldSchema, CUSTOM_FIELD_LABEL_MAX_LENGTH } from '../services/api';
+import type { CustomFieldDefinition, CreateCustomField, CustomFieldType } from '../services/api';
+import { useNotification } from '../hooks/useNotification';
+import { CUSTOM_FIELD_TYPE_LABELS } from '../utils/taskUtils';
+
+interface CustomFieldDialogProps {
+  open: boolean;
+  // Definition being edited; null opens the dialog in create mode
+  field: CustomFieldDefinition | null;
+  onClose: () => void;
+}
+
+const toFormValues = (field: CustomFieldDefinition | null): CreateCustomField => ({
+  key: field?.key ?? '',
+  label: field?.label ?? '',
+  type: field?.type ?? 'text',
+  options: field?.options ?? [],
+  required: field?.required ?? false,
+});
+
+// Suggests a key from the label while creating, e.g. "Customer ID" -> "customer_id"
+const toKey = (label: string) =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^[^a-z]+|_+$/g, '');
+
+// Create/edit dialog for a custom task field definition
+export const CustomFieldDialog: React.FC<CustomFieldDialogProps> = ({ open, field, onClose }) => {
+  const { notifySuccess, notifyError } = useNotification();
+  const {
+    control,
+    handleSubmit,
+    reset,
+    setError,
+    setValue,
+    getFieldState,
+    formState: { isDirty, isSubmitting },
+  } = useForm<CreateCustomField>({ resolver: yupResolver(customFieldSchema), defaultValues: toFormValues(field) });
+  const type = useWatch({ control, name: 'type' });
+
+  useEffect(() => {
+    if (open) reset(toFormValues(field));
+  }, [open, field, reset]);
+
+  const handleClose = () => {
+    if (isSubmitting) return;
+    if (isDirty && !window.confirm('Discard unsaved changes to this field?')) return;
+    onClose();
+  };
+
+  const onSubmit = async (values: CreateCustomField) => {
+    try {
+      if (field) {
+        // Key and type are fixed once tasks may hold values for the field
+        await apiService.updateCustomField(field.id, {
+          label: values.label,
+          options: values.options,
+          required: values.required,
+        });
+        notifySuccess('Custom field updated');
+      } else {
+        await apiService.createCustomField(values);
+        notifySuccess('Custom field created');
+      }
+      onClose();
+    } catch (error) {
+      const apiError = ApiError.from(error);
+      if (apiError.kind === 'validation') {
+        Object.entries(apiError.fieldErrors).forEach(([name, message]) =>
+          setError(name as keyof CreateCustomField, { message }));
+      }
+      notifyError(apiError, 'Failed to save custom field');
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="xs" fullWidth>
+      <DialogTitle>
+        {field ? 'Edit Custom Field' : 'Add Custom Field'}
+      </DialogTitle>
+
+      <DialogContent>
+        <Controller
+          name="label"
+          control={control}
+          render={({ field: input, fieldState }) => (
+            <TextField
+              {...input}
+              onChange={(e) => {
+                input.onChange(e);
+                if (!field && !getFieldState('key').isDirty) setValue('key', toKey(e.target.value));
+              }}
+              autoFocus
+              margin="dense"
+              label="Label"
+              fullWidth
+              error={!!fieldState.error}
+              helperText={fieldState.error?.message}
+              disabled={isSubmitting}
+              slotProps={{ htmlInput: { maxLength: CUSTOM_FIELD_LABEL_MAX_LENGTH } }}
+            />
+          )}
+        />
+
+        <Controller
+          name="key"
+          control={control}
+          render={({ field: input, fieldState }) => (
+            <TextField
+              {...input}
+              margin="dense"
+              label="Key"
+              fullWidth
+              error={!!fieldState.error}
+              helperText={fieldState.error?.message ?? (field ? 'The key cannot be changed' : 'Used to store values on tasks')}
+              disabled={isSubmitting || !!field}
+            />
+          )}
+        />
+
+        <Controller
+          name="type"
+          control={control}
+          render={({ field: input }) => (
+            <FormControl fullWidth margin="dense">
+              <InputLabel>Type</InputLabel>
+              <Select
+                value={input.value}
+                onChange={(e) => input.onChange(e.target.value)}
+                label="Type"
+                disabled={isSubmitting || !!field}
+              >
+                {(Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[]).map((value) => (
+                  <MenuItem key={value} value={value}>
+                    {CUSTOM_FIELD_TYPE_LABELS[value]}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          )}
+        />
+
+        {type === 'select' && (
+          <Controller
+            name="options"
+            control={control}
+            render={({ field: input, fieldState }) => (
+              <TextField
+                // Blank lines are dropped by the schema when the form is saved
+                value={(input.value ?? []).join('\n')}
+                onChange={(e) => input.onChange(e.target.value.split('\n'))}
+                onBlur={input.onBlur}
+                margin="dense"
+                label="Options"
+                placeholder="One option per line"
+                fullWidth
+                multiline
+                minRows={3}
+                error={!!fieldState.error}
+                helperText={fieldState.error?.message ?? 'One option per line'}
+                disabled={isSubmitting}
+              />
+            )}
+          />
+        )}
+
+        <Controller
+          name="required"
+          control={control}
+          render={({ field: input }) => (
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={!!input.value}
+                  onChange={(e) => input.onChange(e.target.checked)}
+                  disabled={isSubmitting}
+                />
+              }
+              label="Required on every task"
+            />
+          )}
+        />
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={handleClose} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button onClick={handleSubmit(onSubmit)} variant="contained" disabled={isSubmitting}>
+          {isSubmitting ? <CircularProgress size={24} /> : field ? 'Update' : 'Create'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,98 @@
+import React from 'react';
+import { FormControl, FormHelperText, InputLabel, MenuItem, Select, TextField } from '@mui/material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { Controller } from 'react-hook-form';
+import type { Control } from 'react-hook-form';
+import dayjs from 'dayjs';
+import type { CreateTask, CustomFieldDefinition } from '../services/api';
+
+interface CustomFieldInputsProps {
+  control: Control<CreateTask>;
+  fields: CustomFieldDefinition[];
+  disabled?: boolean;
+}
+
+// One input per admin-defined custom field; must be rendered inside a LocalizationProvider
+export const CustomFieldInputs: React.FC<CustomFieldInputsProps> = ({ control, fields, disabled = false }) => (
+  <>
+    {fields.map((definition) => (
+      <Controller
+        key={definition.id}
+        name={`custom_fields.${definition.key}`}
+        control={control}
+        render={({ field, fieldState }) => {
+          const label = definition.required ? `${definition.label} *` : definition.label;
+          const common = {
+            error: !!fieldState.error,
+            helperText: fieldState.error?.message,
+            disabled,
+          };
+
+          switch (definition.type) {
+            case 'select':
+              return (
+                <FormControl fullWidth margin="dense" error={common.error} disabled={disabled}>
+                  <InputLabel>{label}</InputLabel>
+                  <Select<string>
+                    value={field.value === undefined || field.value === null ? '' : String(field.value)}
+                    onChange={(e) => field.onChange(e.target.value || null)}
+                    onBlur={field.onBlur}
+                    label={label}
+                  >
+                    <MenuItem value="">
+                      <em>None</em>
+                    </MenuItem>
+                    {(definition.options ?? []).map((option) => (
+                      <MenuItem key={option} value={option}>
+                        {option}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                  {common.helperText && <FormHelperText>{common.helperText}</FormHelperText>}
+                </FormControl>
+              );
+            case 'date':
+              return (
+                <DatePicker
+                  label={label}
+                  value={field.value ? dayjs(field.value) : null}
+                  // Stored as a plain calendar date; invalid input is kept as text so the schema can report it
+                  onChange={(date) => field.onChange(date ? (date.isValid() ? date.format('YYYY-MM-DD') : date.format()) : null)}
+                  disabled={disabled}
+                  slotProps={{
+                    textField: { fullWidth: true, margin: 'dense', onBlur: field.onBlur, ...common },
+                    field: { clearable: true },
+                  }}
+                />
+              );
+            case 'number':
+              return (
+                <TextField
+                  label={label}
+                  type="number"
+                  fullWidth
+                  margin="dense"
+                  value={field.value ?? ''}
+                  onChange={(e) => field.onChange(e.target.value === '' ? null : Number(e.target.value))}
+                  onBlur={field.onBlur}
+                  {...common}
+                />
+              );
+            default:
+              return (
+                <TextField
+                  label={label}
+                  fullWidth
+                  margin="dense"
+                  value={field.value ?? ''}
+                  onChange={(e) => field.onChange(e.target.value || null)}
+                  onBlur={field.onBlur}
+                  {...common}
+                />
+              );
+          }
+        }}
+      />
+    ))}
+  </>
+);
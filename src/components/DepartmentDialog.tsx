@@ -0,0 +1,184 @@
+import React, { useEffect, useMemo } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  CircularProgress,
+  FormControl,
+  FormHelperText,
+  InputLabel,
+  Select,
+  MenuItem
+} from '@mui/material';
+import { useForm, Controller } from 'react-hook-form';
+import type { Resolver } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import { apiService, ApiError, departmentSchema, DEPARTMENT_NAME_MAX_LENGTH } from '../services/api';
+import type { Department, CreateDepartment, DepartmentValidationContext, Employee } from '../services/api';
+import { useNotification } from '../hooks/useNotification';
+import { getDepartmentSubtree, getDepartmentTree } from '../utils/departments';
+
+interface DepartmentDialogProps {
+  open: boolean;
+  // Department being edited; null opens the dialog in create mode
+  department: Department | null;
+  departments: Department[];
+  employees: Employee[];
+  onClose: () => void;
+}
+
+const toFormValues = (department: Department | null): CreateDepartment => ({
+  name: department?.name ?? '',
+  manager_id: department?.manager_id ?? null,
+  parent_id: department?.parent_id ?? null,
+});
+
+// Create/edit dialog for a department, its manager and its place in the hierarchy
+export const DepartmentDialog: React.FC<DepartmentDialogProps> = ({ open, department, departments, employees, onClose }) => {
+  const { notifySuccess, notifyError } = useNotification();
+  const context = useMemo<DepartmentValidationContext>(
+    () => ({ departments, departmentId: department?.id }),
+    [departments, department]
+  );
+  const {
+    control,
+    handleSubmit,
+    reset,
+    setError,
+    formState: { isDirty, isSubmitting },
+  } = useForm<CreateDepartment, DepartmentValidationContext>({
+    resolver: yupResolver(departmentSchema) as Resolver<CreateDepartment>,
+    context,
+    defaultValues: toFormValues(department),
+  });
+
+  // A department cannot sit below itself or its own sub-departments
+  const parentOptions = useMemo(() => {
+    const excluded = department ? getDepartmentSubtree(departments, department.id) : new Set<number>();
+    return getDepartmentTree(departments).filter(({ department: option }) => !excluded.has(option.id));
+  }, [departments, department]);
+
+  useEffect(() => {
+    if (open) reset(toFormValues(department));
+  }, [open, department, reset]);
+
+  const handleClose = () => {
+    if (isSubmitting) return;
+    if (isDirty && !window.confirm('Discard unsaved changes to this department?')) return;
+    onClose();
+  };
+
+  const onSubmit = async (values: CreateDepartment) => {
+    try {
+      if (department) {
+        await apiService.updateDepartment(department.id, values);
+        notifySuccess('Department updated');
+      } else {
+        await apiService.createDepartment(values);
+        notifySuccess('Department created');
+      }
+      onClose();
+    } catch (error) {
+      const apiError = ApiError.from(error);
+      if (apiError.kind === 'validation') {
+        Object.entries(apiError.fieldErrors).forEach(([name, message]) =>
+          setError(name as keyof CreateDepartment, { message }));
+      }
+      notifyError(apiError, 'Failed to save department');
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="xs" fullWidth>
+      <DialogTitle>
+        {department ? 'Edit Department' : 'Add Department'}
+      </DialogTitle>
+
+      <DialogContent>
+        <Controller
+          name="name"
+          control={control}
+          render={({ field, fieldState }) => (
+            <TextField
+              {...field}
+              autoFocus
+              margin="dense"
+              label="Name"
+              fullWidth
+              error={!!fieldState.error}
+              helperText={fieldState.error?.message ?? (department ? 'Employees in the department are renamed too' : undefined)}
+              disabled={isSubmitting}
+              slotProps={{ htmlInput: { maxLength: DEPARTMENT_NAME_MAX_LENGTH } }}
+            />
+          )}
+        />
+
+        <Controller
+          name="manager_id"
+          control={control}
+          render={({ field, fieldState }) => (
+            <FormControl fullWidth margin="dense" error={!!fieldState.error}>
+              <InputLabel>Manager</InputLabel>
+              <Select<number | ''>
+                value={field.value ?? ''}
+                onChange={(e) => field.onChange(e.target.value === '' ? null : Number(e.target.value))}
+                onBlur={field.onBlur}
+                label="Manager"
+                disabled={isSubmitting}
+              >
+                <MenuItem value="">
+                  <em>No manager</em>
+                </MenuItem>
+                {employees.map((employee) => (
+                  <MenuItem key={employee.id} value={employee.id}>
+                    {employee.name} - {employee.position}
+                  </MenuItem>
+                ))}
+              </Select>
+              {fieldState.error && <FormHelperText>{fieldState.error.message}</FormHelperText>}
+            </FormControl>
+          )}
+        />
+
+        <Controller
+          name="parent_id"
+          control={control}
+          render={({ field, fieldState }) => (
+            <FormControl fullWidth margin="dense" error={!!fieldState.error}>
+              <InputLabel>Parent Department</InputLabel>
+              <Select<number | ''>
+                value={field.value ?? ''}
+                onChange={(e) => field.onChange(e.target.value === '' ? null : Number(e.target.value))}
+                onBlur={field.onBlur}
+                label="Parent Department"
+                disabled={isSubmitting}
+              >
+                <MenuItem value="">
+                  <em>None (top level)</em>
+                </MenuItem>
+                {parentOptions.map(({ department: option, depth }) => (
+                  <MenuItem key={option.id} value={option.id} sx={{ pl: 2 + depth * 2 }}>
+                    {option.name}
+                  </MenuItem>
+                ))}
+              </Select>
+              {fieldState.error && <FormHelperText>{fieldState.error.message}</FormHelperText>}
+            </FormControl>
+          )}
+        />
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={handleClose} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button onClick={handleSubmit(onSubmit)} variant="contained" disabled={isSubmitting}>
+          {isSubmitting ? <CircularProgress size={24} /> : department ? 'Update' : 'Create'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
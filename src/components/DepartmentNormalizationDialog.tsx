@@ -0,0 +1,168 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  LinearProgress,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import { apiService } from '../services/api';
+import type { Department, Employee } from '../services/api';
+import { useNotification } from '../hooks/useNotification';
+import { runBatch } from '../utils/batch';
+import { getDepartmentTree, getUnmappedDepartments, matchDepartment, normalizeDepartmentName } from '../utils/departments';
+
+interface DepartmentNormalizationDialogProps {
+  open: boolean;
+  employees: Employee[];
+  departments: Department[];
+  onClose: () => void;
+}
+
+// Where the employees of one free-text value go: an existing department, a new one named after the value, or nowhere yet
+type MappingTarget = number | 'create' | 'skip';
+
+// One-time tool that links employees' free-text departments to department records; mount it when opening
+export const DepartmentNormalizationDialog: React.FC<DepartmentNormalizationDialogProps> = ({
+  open,
+  employees,
+  departments,
+  onClose,
+}) => {
+  const { notify, notifySuccess, notifyError } = useNotification();
+  // Worked out when the dialog mounts, so rows do not disappear as employees are updated
+  const [groups] = useState(() => getUnmappedDepartments(employees, departments));
+  const [targets, setTargets] = useState<MappingTarget[]>(() => groups.map(group =>
+    matchDepartment(group.value, departments)?.id ?? (group.value ? 'create' : 'skip')));
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const options = useMemo(() => getDepartmentTree(departments), [departments]);
+
+  const mappedCount = groups.reduce((count, group, index) => count + (targets[index] === 'skip' ? 0 : group.employees.length), 0);
+  const running = progress !== null;
+
+  const handleApply = async () => {
+    const created = new Map<string, Department>();
+    const resolveTarget = async (index: number): Promise<Department | undefined> => {
+      const target = targets[index];
+      if (target === 'skip') return undefined;
+      if (target !== 'create') return departments.find(department => department.id === target);
+      // Values that only differ in spelling share the department created for the first of them
+      const key = normalizeDepartmentName(groups[index].value);
+      if (!created.has(key)) created.set(key, await apiService.createDepartment({ name: groups[index].value }));
+      return created.get(key);
+    };
+
+    setProgress({ done: 0, total: mappedCount });
+    let failed = 0;
+    for (const [index, group] of groups.entries()) {
+      let department: Department | undefined;
+      try {
+        department = await resolveTarget(index);
+      } catch (error) {
+        notifyError(error, `Failed to create the "${group.value}" department`);
+        failed += targets[index] === 'skip' ? 0 : group.employees.length;
+        continue;
+      }
+      if (!department) continue;
+      const target = department;
+      const results = await runBatch(group.employees, employee =>
+        apiService.updateEmployee(employee.id, { department: target.name, department_id: target.id }),
+        () => setProgress(prev => prev && { ...prev, done: prev.done + 1 }));
+      failed += results.filter(result => result.status === 'error').length;
+    }
+
+    if (failed > 0) {
+      notify(`${failed} employee${failed === 1 ? ' was' : 's were'} not updated; run the tool again to retry`, 'warning');
+    } else {
+      notifySuccess(`${mappedCount} employee${mappedCount === 1 ? '' : 's'} linked to departments`);
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={running ? undefined : onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Normalize Departments</DialogTitle>
+      <DialogContent>
+        {groups.length === 0 ? (
+          <Alert severity="success">Every employee already belongs to a department from the list.</Alert>
+        ) : (
+          <>
+            <DialogContentText mb={2}>
+              These department names were typed in by hand. Choose the department each one stands for; employees
+              are moved onto it and the name is spelled the same way everywhere.
+            </DialogContentText>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Current value</TableCell>
+                  <TableCell>Employees</TableCell>
+                  <TableCell>Department</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {groups.map((group, index) => (
+                  <TableRow key={`${group.value}-${index}`}>
+                    <TableCell>
+                      {group.value || <Typography component="em" color="text.secondary">(blank)</Typography>}
+                    </TableCell>
+                    <TableCell title={group.employees.map(employee => employee.name).join(', ')}>
+                      {group.employees.length}
+                    </TableCell>
+                    <TableCell>
+                      <Select<MappingTarget>
+                        value={targets[index] ?? 'skip'}
+                        onChange={(e) => setTargets(prev =>
+                          prev.map((target, i) => i === index ? e.target.value as MappingTarget : target))}
+                        size="small"
+                        fullWidth
+                        disabled={running}
+                      >
+                        <MenuItem value="skip">
+                          <em>Leave as is</em>
+                        </MenuItem>
+                        {group.value && <MenuItem value="create">Create "{group.value}"</MenuItem>}
+                        {options.map(({ department, depth }) => (
+                          <MenuItem key={department.id} value={department.id} sx={{ pl: 2 + depth * 2 }}>
+                            {department.name}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+        {progress && (
+          <LinearProgress
+            variant="determinate"
+            value={progress.total > 0 ? (progress.done / progress.total) * 100 : 100}
+            sx={{ mt: 2 }}
+          />
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={running}>
+          {groups.length === 0 ? 'Close' : 'Cancel'}
+        </Button>
+        {groups.length > 0 && (
+          <Button onClick={handleApply} variant="contained" disabled={running || mappedCount === 0}>
+            Update {mappedCount} employee{mappedCount === 1 ? '' : 's'}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
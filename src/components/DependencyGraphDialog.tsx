@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardActionArea,
+  CardContent,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Typography
+} from '@mui/material';
+import { ArrowForward } from '@mui/icons-material';
+import type { Task } from '../services/api';
+import { getStatusColor, getStatusIcon } from '../utils/taskUtils';
+import { getDependencyLevels } from '../utils/dependencies';
+import type { DependencyIndex } from '../utils/dependencies';
+
+interface DependencyGraphDialogProps {
+  task: Task;
+  index: DependencyIndex;
+  tasksById: Map<number, Task>;
+  onClose: () => void;
+}
+
+interface GraphNodeProps {
+  taskId: number;
+  tasksById: Map<number, Task>;
+  current?: boolean;
+  onSelect: (taskId: number) => void;
+}
+
+const GraphNode: React.FC<GraphNodeProps> = ({ taskId, tasksById, current = false, onSelect }) => {
+  const task = tasksById.get(taskId);
+  return (
+    <Card variant="outlined" sx={{ width: 200, ...(current && { borderColor: 'primary.main', borderWidth: 2 }) }}>
+      <CardActionArea onClick={() => onSelect(taskId)} disabled={current || !task}>
+        <CardContent sx={{ p: 1.5, '&:last-child': { pb: 1.5 } }}>
+          <Typography variant="body2" fontWeight={current ? 'bold' : undefined} noWrap title={task?.title}>
+            {task?.title ?? `Task #${taskId}`}
+          </Typography>
+          {task && (
+            <Chip
+              label={task.status}
+              color={getStatusColor(task.status)}
+              icon={getStatusIcon(task.status)}
+              size="small"
+              sx={{ mt: 1 }}
+            />
+          )}
+        </CardContent>
+      </CardActionArea>
+    </Card>
+  );
+};
+
+// Columns of tasks a task waits for (left) and tasks waiting for it (right); clicking a task centers the graph on it
+export const DependencyGraphDialog: React.FC<DependencyGraphDialogProps> = ({ task, index, tasksById, onClose }) => {
+  const [centerId, setCenterId] = useState(task.id);
+  // Farthest blockers first, so the chain reads left to right
+  const upstream = getDependencyLevels(index, centerId, 'upstream').reverse();
+  const downstream = getDependencyLevels(index, centerId, 'downstream');
+  const columns = [
+    ...upstream.map((ids, level) => ({ key: `up-${level}`, heading: level === upstream.length - 1 ? 'Blocked by' : '', ids })),
+    { key: 'center', heading: 'Task', ids: [centerId] },
+    ...downstream.map((ids, level) => ({ key: `down-${level}`, heading: level === 0 ? 'Blocks' : '', ids })),
+  ];
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>Dependencies</DialogTitle>
+      <DialogContent>
+        {upstream.length === 0 && downstream.length === 0 && (
+          <Typography color="text.secondary" mb={2}>
+            This task does not block and is not blocked by any other task.
+          </Typography>
+        )}
+        <Box display="flex" alignItems="center" gap={1} sx={{ overflowX: 'auto', pb: 1 }}>
+          {columns.map((column, position) => (
+            <React.Fragment key={column.key}>
+              {position > 0 && <ArrowForward color="action" sx={{ flexShrink: 0 }} />}
+              <Box display="flex" flexDirection="column" gap={1} flexShrink={0}>
+                <Typography variant="overline" color="text.secondary" minHeight={32}>
+                  {column.heading}
+                </Typography>
+                {column.ids.map(id => (
+                  <GraphNode
+                    key={id}
+                    taskId={id}
+                    tasksById={tasksById}
+                    current={id === centerId}
+                    onSelect={setCenterId}
+                  />
+                ))}
+              </Box>
+            </React.Fragment>
+          ))}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        {centerId !== task.id && (
+          <Button onClick={() => setCenterId(task.id)}>
+            Back to "{task.title}"
+          </Button>
+        )}
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
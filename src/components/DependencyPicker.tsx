@@ -0,0 +1,68 @@
+import React from 'react';
+import { Autocomplete, Chip, TextField } from '@mui/material';
+import type { Task } from '../services/api';
+import { getStatusColor } from '../utils/taskUtils';
+
+interface DependencyPickerProps {
+  label: string;
+  // Ids of the related tasks
+  value: number[];
+  onChange: (value: number[]) => void;
+  tasks: Task[];
+  tasksById: Map<number, Task>;
+  // Task being edited, left out of the options
+  taskId?: number;
+  error?: string;
+  disabled?: boolean;
+}
+
+// Multi-select of other tasks for one side of a "blocked by" / "blocks" relation
+export const DependencyPicker: React.FC<DependencyPickerProps> = ({
+  label,
+  value,
+  onChange,
+  tasks,
+  tasksById,
+  taskId,
+  error,
+  disabled = false,
+}) => {
+  const options = tasks.filter(task => task.id !== taskId).map(task => task.id);
+
+  return (
+    <Autocomplete
+      multiple
+      options={options}
+      value={value}
+      onChange={(_, ids) => onChange(ids)}
+      getOptionLabel={(id) => tasksById.get(id)?.title ?? `#${id}`}
+      disabled={disabled}
+      renderValue={(ids, getItemProps) =>
+        ids.map((id, index) => {
+          const { key, ...itemProps } = getItemProps({ index });
+          const related = tasksById.get(id);
+          return (
+            <Chip
+              key={key}
+              {...itemProps}
+              label={related?.title ?? `#${id}`}
+              color={related ? getStatusColor(related.status) : 'default'}
+              size="small"
+              variant="outlined"
+            />
+          );
+        })
+      }
+      renderInput={(params) => (
+        <TextField
+          {...params}
+          label={label}
+          margin="dense"
+          variant="outlined"
+          error={!!error}
+          helperText={error}
+        />
+      )}
+    />
+  );
+};
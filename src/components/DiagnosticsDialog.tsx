@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Table,
+  TableBody,
+  TableRow,
+  TableCell,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import { apiService, ApiError } from '../services/api';
+import { getConfig, getConfigSource } from '../config';
+
+interface DiagnosticsDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export const DiagnosticsDialog: React.FC<DiagnosticsDialogProps> = ({ open, onClose }) => {
+  const [checking, setChecking] = useState(false);
+  const [result, setResult] = useState<{ ok: boolean; message: string } | null>(null);
+  const config = getConfig();
+
+  const rows = [
+    { label: 'Environment', value: config.environment },
+    { label: 'API base URL', value: config.apiBaseUrl },
+    { label: 'Request timeout', value: `${config.apiTimeout} ms` },
+    { label: 'Auth endpoint', value: config.authTokenPath },
+    { label: 'Settings from', value: getConfigSource() === 'runtime' ? 'config.json' : 'build environment' },
+  ];
+
+  const handleCheck = async () => {
+    setChecking(true);
+    setResult(null);
+    try {
+      const latency = await apiService.ping();
+      setResult({ ok: true, message: `Backend reachable (${latency} ms)` });
+    } catch (error) {
+      const { status } = ApiError.from(error);
+      setResult(status
+        ? { ok: true, message: `Backend reachable, responded with HTTP ${status}` }
+        : { ok: false, message: 'Backend unreachable' });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Diagnostics</DialogTitle>
+      <DialogContent>
+        <Table size="small">
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.label}>
+                <TableCell component="th" scope="row" sx={{ fontWeight: 500 }}>
+                  {row.label}
+                </TableCell>
+                <TableCell sx={{ wordBreak: 'break-all' }}>{row.value}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {result && (
+          <Alert severity={result.ok ? 'success' : 'error'} sx={{ mt: 2 }}>
+            {result.message}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleCheck} disabled={checking}>
+          {checking ? <CircularProgress size={24} /> : 'Test Connection'}
+        </Button>
+        <Button onClick={onClose} variant="contained">
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,278 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  CircularProgress,
+  FormControl,
+  FormHelperText,
+  InputLabel,
+  Select,
+  MenuItem
+} from '@mui/material';
+import { useForm, Controller } from 'react-hook-form';
+import type { Resolver } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import { apiService, ApiError, createEmployeeSchema, updateEmployeeSchema, EMPLOYEE_NAME_MAX_LENGTH } from '../services/api';
+import type { Employee, CreateEmployee, EmployeeValidationContext } from '../services/api';
+import { useNotification } from '../hooks/useNotification';
+import { useDepartments } from '../hooks/useDepartments';
+import { getDepartmentTree } from '../utils/departments';
+import { getAllReports } from '../utils/orgChart';
+import { MergeConflictDialog } from './MergeConflictDialog';
+import type { MergeField } from './MergeConflictDialog';
+
+interface EmployeeFormDialogProps {
+  open: boolean;
+  // Employee being edited; null opens the dialog in create mode
+  employee: Employee | null;
+  // Every employee: managers are picked from them, reporting loops checked against them and taken emails rejected
+  employees: Employee[];
+  // True until `employees` has loaded; saving waits so a taken email is not missed
+  employeesLoading?: boolean;
+  onClose: () => void;
+}
+
+const FIELDS: { name: keyof CreateEmployee; label: string; type?: string }[] = [
+  { name: 'name', label: 'Full Name' },
+  { name: 'email', label: 'Email', type: 'email' },
+  { name: 'department', label: 'Department' },
+  { name: 'position', label: 'Position' },
+];
+
+const toFormValues = (employee: Employee | null): CreateEmployee => ({
+  name: employee?.name ?? '',
+  email: employee?.email ?? '',
+  department: employee?.department ?? '',
+  position: employee?.position ?? '',
+  manager_id: employee?.manager_id ?? null,
+});
+
+export const EmployeeFormDialog: React.FC<EmployeeFormDialogProps> = ({
+  open,
+  employee,
+  employees,
+  employeesLoading = false,
+  onClose,
+}) => {
+  const { notifySuccess, notifyError } = useNotification();
+  const resolver = useMemo(
+    () => (employee ? yupResolver(updateEmployeeSchema) : yupResolver(createEmployeeSchema)) as Resolver<CreateEmployee>,
+    [employee]
+  );
+  const { departments } = useDepartments();
+  const departmentOptions = useMemo(() => getDepartmentTree(departments), [departments]);
+  const context = useMemo<EmployeeValidationContext>(() => ({
+    existingEmails: employees.filter(e => e.id !== employee?.id).map(e => e.email),
+    departmentNames: departments.map(d => d.name),
+    employees,
+    employeeId: employee?.id,
+  }), [employees, employee, departments]);
+  // Nobody can report to themselves or to one of their own reports
+  const managerOptions = useMemo(() => {
+    if (!employee) return employees;
+    const reports = getAllReports(employees, employee.id);
+    return employees.filter(e => e.id !== employee.id && !reports.has(e.id));
+  }, [employees, employee]);
+  const mergeFields = useMemo<MergeField<CreateEmployee>[]>(() => [
+    ...FIELDS,
+    {
+      name: 'manager_id',
+      label: 'Manager',
+      format: (value) => value === undefined || value === null
+        ? 'No manager'
+        : employees.find(e => e.id === value)?.name ?? `#${value}`,
+    },
+  ], [employees]);
+  const {
+    control,
+    handleSubmit,
+    reset,
+    setError,
+    formState: { isDirty, isSubmitting },
+  } = useForm<CreateEmployee, EmployeeValidationContext>({ resolver, context, defaultValues: toFormValues(employee) });
+
+  const [conflict, setConflict] = useState<{ mine: CreateEmployee; theirs: Employee } | null>(null);
+  const [mergeSaving, setMergeSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) reset(toFormValues(employee));
+  }, [open, employee, reset]);
+
+  const handleClose = () => {
+    if (isSubmitting) return;
+    if (isDirty && !window.confirm('Discard unsaved changes to this employee?')) return;
+    onClose();
+  };
+
+  const save = async (formValues: CreateEmployee, expectedUpdatedAt?: string) => {
+    // The department is picked by name; its record links the employee to it
+    const department = departments.find(d => d.name === formValues.department);
+    const values = department ? { ...formValues, department_id: department.id } : formValues;
+    if (employee) {
+      await apiService.updateEmployee(employee.id, values, { expectedUpdatedAt });
+      notifySuccess('Employee updated');
+    } else {
+      await apiService.createEmployee(values);
+      notifySuccess('Employee created');
+    }
+    onClose();
+  };
+
+  const handleSaveError = async (error: unknown, values: CreateEmployee) => {
+    const apiError = ApiError.from(error);
+    if (apiError.kind === 'conflict' && employee) {
+      try {
+        setConflict({ mine: values, theirs: await apiService.getEmployee(employee.id) });
+      } catch (fetchError) {
+        notifyError(fetchError, 'Failed to load the current version of this employee');
+      }
+      return;
+    }
+    if (apiError.kind === 'validation') {
+      Object.entries(apiError.fieldErrors).forEach(([field, message]) =>
+        setError(field as keyof CreateEmployee, { message }));
+    }
+    notifyError(apiError, 'Failed to save employee');
+  };
+
+  const onSubmit = async (values: CreateEmployee) => {
+    try {
+      // Sent as a precondition so an edit made in the meantime is not overwritten
+      await save(values, employee?.updated_at);
+    } catch (error) {
+      await handleSaveError(error, values);
+    }
+  };
+
+  const handleMergeSave = async (values: CreateEmployee) => {
+    if (!conflict) return;
+    setMergeSaving(true);
+    try {
+      await save(values, conflict.theirs.updated_at);
+      setConflict(null);
+    } catch (error) {
+      // Show the merged values in the form so field errors line up with them
+      setConflict(null);
+      reset(values, { keepDefaultValues: true });
+      await handleSaveError(error, values);
+    } finally {
+      setMergeSaving(false);
+    }
+  };
+
+  const handleTakeTheirs = () => {
+    setConflict(null);
+    notifySuccess('Kept the current version of the employee');
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        {employee ? 'Edit Employee' : 'Add New Employee'}
+      </DialogTitle>
+
+      <DialogContent>
+        {FIELDS.map(({ name, label, type }, index) => (
+          <Controller
+            key={name}
+            name={name}
+            control={control}
+            // Backends without departments keep the free-text input
+            render={({ field, fieldState }) => name === 'department' && departments.length > 0 ? (
+              <FormControl fullWidth margin="dense" variant="outlined" error={!!fieldState.error}>
+                <InputLabel>{label}</InputLabel>
+                <Select
+                  value={field.value ?? ''}
+                  onChange={(e) => field.onChange(e.target.value)}
+                  onBlur={field.onBlur}
+                  label={label}
+                  disabled={isSubmitting}
+                >
+                  {field.value && !departments.some(d => d.name === field.value) && (
+                    <MenuItem value={field.value} disabled>
+                      <em>{field.value} (not in the list)</em>
+                    </MenuItem>
+                  )}
+                  {departmentOptions.map(({ department, depth }) => (
+                    <MenuItem key={department.id} value={department.name} sx={{ pl: 2 + depth * 2 }}>
+                      {department.name}
+                    </MenuItem>
+                  ))}
+                </Select>
+                {fieldState.error && <FormHelperText>{fieldState.error.message}</FormHelperText>}
+              </FormControl>
+            ) : (
+              <TextField
+                {...field}
+                autoFocus={index === 0}
+                margin="dense"
+                label={label}
+                type={type}
+                fullWidth
+                variant="outlined"
+                error={!!fieldState.error}
+                helperText={fieldState.error?.message}
+                disabled={isSubmitting}
+                slotProps={name === 'name' ? { htmlInput: { maxLength: EMPLOYEE_NAME_MAX_LENGTH } } : undefined}
+              />
+            )}
+          />
+        ))}
+        <Controller
+          name="manager_id"
+          control={control}
+          render={({ field, fieldState }) => (
+            <FormControl fullWidth margin="dense" variant="outlined" error={!!fieldState.error}>
+              <InputLabel>Manager</InputLabel>
+              <Select<number | ''>
+                value={field.value ?? ''}
+                onChange={(e) => field.onChange(e.target.value === '' ? null : Number(e.target.value))}
+                onBlur={field.onBlur}
+                label="Manager"
+                disabled={isSubmitting}
+              >
+                <MenuItem value="">
+                  <em>No manager</em>
+                </MenuItem>
+                {managerOptions.map((option) => (
+                  <MenuItem key={option.id} value={option.id}>
+                    {option.name} - {option.position}
+                  </MenuItem>
+                ))}
+              </Select>
+              {fieldState.error && <FormHelperText>{fieldState.error.message}</FormHelperText>}
+            </FormControl>
+          )}
+        />
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={handleClose} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button onClick={handleSubmit(onSubmit)} variant="contained" disabled={isSubmitting || employeesLoading}>
+          {isSubmitting ? <CircularProgress size={24} /> : employee ? 'Update' : 'Create'}
+        </Button>
+      </DialogActions>
+
+      {conflict && (
+        <MergeConflictDialog
+          open
+          recordLabel="employee"
+          fields={mergeFields}
+          mine={conflict.mine}
+          theirs={toFormValues(conflict.theirs)}
+          saving={mergeSaving}
+          onSave={handleMergeSave}
+          onTakeTheirs={handleTakeTheirs}
+          onCancel={() => setConflict(null)}
+        />
+      )}
+    </Dialog>
+  );
+};
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { useNavigate, useLocation, Outlet } from 'react-router-dom';
 import {
   AppBar,
@@ -9,16 +9,28 @@ import {
   Container,
   IconButton,
   Menu,
-  MenuItem
+  MenuItem,
+  Divider,
+  ListItemText,
+  Alert
 } from '@mui/material';
-import { AccountCircle, People, Assignment, ExitToApp } from '@mui/icons-material';
+import { AccountCircle, Dashboard, People, Assignment, ExitToApp, Info, Tune, Business, AccountTree } from '@mui/icons-material';
 import { useAuth } from '../contexts/AuthContext';
+import { apiService } from '../services/api';
+import { DEFAULT_ROLE, ROLE_LABELS } from '../utils/permissions';
+import { DiagnosticsDialog } from './DiagnosticsDialog';
+import { SyncStatus } from './SyncStatus';
 
 export const Layout: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
-  const { logout } = useAuth();
+  const { logout, user, hasPermission, userError, reloadUser } = useAuth();
+  const username = user?.username ?? apiService.getCurrentUsername();
   const [anchorEl, setAnchorEl] = React.useState<null | HTMLElement>(null);
+  const [diagnosticsOpen, setDiagnosticsOpen] = React.useState(false);
+
+  // Live updates from other users while signed in
+  useEffect(() => apiService.connectRealtime(), []);
 
   const handleMenu = (event: React.MouseEvent<HTMLElement>) => {
     setAnchorEl(event.currentTarget);
@@ -29,12 +41,21 @@ export const Layout: React.FC = () => {
   };
 
   const handleLogout = () => {
-    logout();
-    navigate('/');
+    handleClose();
+    if (logout()) navigate('/');
+  };
+
+  const handleCustomFields = () => {
+    navigate('/settings/custom-fields');
     handleClose();
   };
 
-  const isActive = (path: string) => location.pathname === path;
+  const handleDiagnostics = () => {
+    setDiagnosticsOpen(true);
+    handleClose();
+  };
+
+  const isActive = (path: string) => location.pathname === path || location.pathname.startsWith(`${path}/`);
 
   return (
     <>
@@ -43,8 +64,19 @@ export const Layout: React.FC = () => {
           <Typography variant="h6" component="div" sx={{ flexGrow: 1 }}>
             Employee Task Manager
           </Typography>
+
+          <SyncStatus />
           
           <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button
+              color="inherit"
+              startIcon={<Dashboard />}
+              onClick={() => navigate('/dashboard')}
+              variant={isActive('/dashboard') ? 'outlined' : 'text'}
+              sx={{ color: 'white', borderColor: 'white' }}
+            >
+              Dashboard
+            </Button>
             <Button
               color="inherit"
               startIcon={<People />}
@@ -54,6 +86,28 @@ export const Layout: React.FC = () => {
             >
               Employees
             </Button>
+            {hasPermission('departments:manage') && (
+              <Button
+                color="inherit"
+                startIcon={<Business />}
+                onClick={() => navigate('/departments')}
+                variant={isActive('/departments') ? 'outlined' : 'text'}
+                sx={{ color: 'white', borderColor: 'white' }}
+              >
+                Departments
+              </Button>
+            )}
+            {hasPermission('org_chart:view') && (
+              <Button
+                color="inherit"
+                startIcon={<AccountTree />}
+                onClick={() => navigate('/org-chart')}
+                variant={isActive('/org-chart') ? 'outlined' : 'text'}
+                sx={{ color: 'white', borderColor: 'white' }}
+              >
+                Org Chart
+              </Button>
+            )}
             <Button
               color="inherit"
               startIcon={<Assignment />}
@@ -73,6 +127,7 @@ export const Layout: React.FC = () => {
             onClick={handleMenu}
             color="inherit"
             sx={{ ml: 1 }}
+            title={username ?? undefined}
           >
             <AccountCircle />
           </IconButton>
@@ -92,6 +147,25 @@ export const Layout: React.FC = () => {
             open={Boolean(anchorEl)}
             onClose={handleClose}
           >
+            {username && (
+              <MenuItem disabled sx={{ '&.Mui-disabled': { opacity: 1 } }}>
+                <ListItemText
+                  primary={username}
+                  secondary={user ? ROLE_LABELS[user.role ?? DEFAULT_ROLE] : 'Role unknown'}
+                />
+              </MenuItem>
+            )}
+            {username && <Divider />}
+            {hasPermission('custom_fields:manage') && (
+              <MenuItem onClick={handleCustomFields}>
+                <Tune sx={{ mr: 1 }} />
+                Custom Fields
+              </MenuItem>
+            )}
+            <MenuItem onClick={handleDiagnostics}>
+              <Info sx={{ mr: 1 }} />
+              Diagnostics
+            </MenuItem>
             <MenuItem onClick={handleLogout}>
               <ExitToApp sx={{ mr: 1 }} />
               Logout
@@ -101,8 +175,23 @@ export const Layout: React.FC = () => {
       </AppBar>
 
       <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
+        {userError && (
+          <Alert
+            severity="warning"
+            sx={{ mb: 3 }}
+            action={
+              <Button color="inherit" size="small" onClick={reloadUser}>
+                Retry
+              </Button>
+            }
+          >
+            Your profile could not be loaded, so actions that depend on your role are hidden ({userError})
+          </Alert>
+        )}
         <Outlet />
       </Container>
+
+      <DiagnosticsDialog open={diagnosticsOpen} onClose={() => setDiagnosticsOpen(false)} />
     </>
   );
 };
\ No newline at end of file
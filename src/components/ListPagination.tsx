@@ -0,0 +1,27 @@
+import React from 'react';
+import { TablePagination } from '@mui/material';
+
+const PAGE_SIZE_OPTIONS = [12, 24, 48, 96];
+
+interface ListPaginationProps {
+  total: number;
+  page: number;
+  pageSize: number;
+  onChange: (page: number, pageSize: number) => void;
+}
+
+// Wraps TablePagination with 1-based pages to match the API
+export const ListPagination: React.FC<ListPaginationProps> = ({ total, page, pageSize, onChange }) => {
+  return (
+    <TablePagination
+      component="div"
+      count={total}
+      page={total > 0 ? page - 1 : 0}
+      rowsPerPage={pageSize}
+      rowsPerPageOptions={PAGE_SIZE_OPTIONS}
+      labelRowsPerPage="Per page"
+      onPageChange={(_, newPage) => onChange(newPage + 1, pageSize)}
+      onRowsPerPageChange={(e) => onChange(1, Number(e.target.value))}
+    />
+  );
+};
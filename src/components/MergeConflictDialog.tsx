@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  Radio,
+  CircularProgress
+} from '@mui/material';
+
+export interface MergeField<T> {
+  name: keyof T & string;
+  label: string;
+  // Display text; two values that display the same are treated as equal
+  format?: (value: unknown) => string;
+}
+
+type Side = 'mine' | 'theirs';
+
+interface MergeConflictDialogProps<T> {
+  open: boolean;
+  // e.g. "task" or "employee"
+  recordLabel: string;
+  fields: MergeField<T>[];
+  mine: T;
+  theirs: T;
+  saving: boolean;
+  onSave: (values: T) => void;
+  onTakeTheirs: () => void;
+  onCancel: () => void;
+}
+
+const formatDefault = (value: unknown) =>
+  value === undefined || value === null || value === '' ? '—' : String(value);
+
+// Shown when saving failed because the record changed on the server after the form was loaded
+export const MergeConflictDialog = <T extends object>({
+  open,
+  recordLabel,
+  fields,
+  mine,
+  theirs,
+  saving,
+  onSave,
+  onTakeTheirs,
+  onCancel,
+}: MergeConflictDialogProps<T>) => {
+  // Mount a fresh dialog per conflict so field choices start over
+  const [choices, setChoices] = useState<Partial<Record<keyof T, Side>>>({});
+
+  const display = (field: MergeField<T>, values: T) => (field.format ?? formatDefault)(values[field.name]);
+  const differing = fields.filter(field => display(field, mine) !== display(field, theirs));
+  const choiceFor = (field: MergeField<T>): Side => choices[field.name] ?? 'mine';
+
+  const merged = (): T => differing.reduce(
+    (values, field) => choiceFor(field) === 'theirs' ? { ...values, [field.name]: theirs[field.name] } : values,
+    { ...mine }
+  );
+
+  const renderChoice = (field: MergeField<T>, side: Side, values: T) => {
+    const isDifferent = differing.includes(field);
+    return (
+      <TableCell sx={{ whiteSpace: 'pre-line', ...(isDifferent && choiceFor(field) === side && { bgcolor: 'action.selected' }) }}>
+        {isDifferent && (
+          <Radio
+            size="small"
+            checked={choiceFor(field) === side}
+            onChange={() => setChoices(prev => ({ ...prev, [field.name]: side }))}
+            disabled={saving}
+            sx={{ p: 0, mr: 1 }}
+            slotProps={{ input: { 'aria-label': `Use ${side === 'mine' ? 'my' : 'their'} ${field.label}` } }}
+          />
+        )}
+        {display(field, values)}
+      </TableCell>
+    );
+  };
+
+  return (
+    <Dialog open={open} onClose={saving ? undefined : onCancel} maxWidth="md" fullWidth>
+      <DialogTitle>This {recordLabel} was changed by someone else</DialogTitle>
+      <DialogContent>
+        <DialogContentText mb={2}>
+          {differing.length === 0
+            ? 'The current version already matches your changes.'
+            : `${differing.length} field${differing.length === 1 ? ' differs' : 's differ'}. Keep your values, take theirs, or pick a version for each field.`}
+        </DialogContentText>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Field</TableCell>
+              <TableCell>Your values</TableCell>
+              <TableCell>Current values</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {fields.map(field => (
+              <TableRow key={field.name}>
+                <TableCell component="th" scope="row" sx={{ fontWeight: differing.includes(field) ? 600 : 500 }}>
+                  {field.label}
+                </TableCell>
+                {renderChoice(field, 'mine', mine)}
+                {renderChoice(field, 'theirs', theirs)}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel} disabled={saving}>
+          Back to form
+        </Button>
+        <Button onClick={onTakeTheirs} disabled={saving}>
+          Take theirs
+        </Button>
+        <Button onClick={() => onSave(mine)} disabled={saving}>
+          Keep mine
+        </Button>
+        <Button onClick={() => onSave(merged())} variant="contained" disabled={saving}>
+          {saving ? <CircularProgress size={24} /> : 'Save merged'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
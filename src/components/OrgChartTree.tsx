@@ -0,0 +1,124 @@
+import React from 'react';
+import {
+  Box,
+  Card,
+  CardActionArea,
+  CardContent,
+  Chip,
+  IconButton,
+  Stack,
+  Typography
+} from '@mui/material';
+import { ExpandLess, ExpandMore, Loop, LinkOff } from '@mui/icons-material';
+import type { Employee } from '../services/api';
+import type { OrgNode } from '../utils/orgChart';
+
+interface OrgChartTreeProps {
+  roots: OrgNode[];
+  // Open task count per employee id
+  openTasks: Map<number, number>;
+  // Employees whose reports are hidden
+  collapsed: Set<number>;
+  onToggle: (employeeId: number) => void;
+  // Employees caught in a reporting loop, and employees whose manager does not exist
+  cycleIds: Set<number>;
+  orphanIds: Set<number>;
+  onSelect: (employee: Employee) => void;
+}
+
+type BranchProps = Omit<OrgChartTreeProps, 'roots'> & { node: OrgNode };
+
+// Gap between a card and the line joining its reports, in theme spacing units
+const CONNECTOR = 2;
+
+const Branch: React.FC<BranchProps> = ({ node, ...props }) => {
+  const { openTasks, collapsed, onToggle, cycleIds, orphanIds, onSelect } = props;
+  const { employee, reports } = node;
+  const expanded = !collapsed.has(employee.id);
+  const inCycle = cycleIds.has(employee.id);
+  const orphaned = orphanIds.has(employee.id);
+  const open = openTasks.get(employee.id) ?? 0;
+
+  return (
+    <Box display="flex" flexDirection="column" alignItems="center">
+      <Card
+        variant="outlined"
+        sx={{
+          width: 220,
+          ...(inCycle && { borderColor: 'error.main', borderWidth: 2 }),
+          ...(orphaned && !inCycle && { borderColor: 'warning.main', borderWidth: 2 }),
+        }}
+      >
+        <CardActionArea onClick={() => onSelect(employee)} title={`Open tasks of ${employee.name}`}>
+          <CardContent sx={{ p: 1.5, '&:last-child': { pb: 1.5 } }}>
+            <Typography variant="subtitle2" noWrap>{employee.name}</Typography>
+            <Typography variant="body2" color="text.secondary" noWrap>{employee.position}</Typography>
+            <Typography variant="caption" color="text.secondary" noWrap component="div">
+              {employee.department}
+            </Typography>
+            <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap mt={1}>
+              <Chip label={`${open} open`} size="small" color={open > 0 ? 'primary' : 'default'} variant="outlined" />
+              {inCycle && <Chip label="Cycle" size="small" color="error" icon={<Loop />} />}
+              {orphaned && <Chip label="Manager missing" size="small" color="warning" icon={<LinkOff />} />}
+            </Stack>
+          </CardContent>
+        </CardActionArea>
+      </Card>
+
+      {reports.length > 0 && (
+        <IconButton
+          size="small"
+          onClick={() => onToggle(employee.id)}
+          title={expanded ? 'Hide reports' : `Show ${reports.length} report${reports.length === 1 ? '' : 's'}`}
+          sx={{ mt: 0.5 }}
+        >
+          {expanded ? <ExpandLess fontSize="small" /> : <ExpandMore fontSize="small" />}
+        </IconButton>
+      )}
+
+      {reports.length > 0 && expanded && (
+        <Box display="flex" alignItems="flex-start">
+          {reports.map((report, index) => (
+            <Box
+              key={report.employee.id}
+              position="relative"
+              px={1}
+              pt={CONNECTOR}
+              sx={{
+                // Horizontal line across the siblings, ending above the first and last of them
+                '&::before': {
+                  content: '""',
+                  position: 'absolute',
+                  top: 0,
+                  height: 2,
+                  bgcolor: 'divider',
+                  left: index === 0 ? '50%' : 0,
+                  right: index === reports.length - 1 ? '50%' : 0,
+                },
+                // Drop from that line to the report's card
+                '&::after': {
+                  content: '""',
+                  position: 'absolute',
+                  top: 0,
+                  left: 'calc(50% - 1px)',
+                  width: 2,
+                  height: theme => theme.spacing(CONNECTOR),
+                  bgcolor: 'divider',
+                },
+              }}
+            >
+              <Branch node={report} {...props} />
+            </Box>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+// Reporting lines drawn top-down; clicking a card selects the employee
+export const OrgChartTree: React.FC<OrgChartTreeProps> = ({ roots, ...props }) => (
+  <Box display="flex" alignItems="flex-start" gap={4} width="max-content" mx="auto">
+    {roots.map(root => <Branch key={root.employee.id} node={root} {...props} />)}
+  </Box>
+);
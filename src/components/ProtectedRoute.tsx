@@ -1,15 +1,17 @@
 import React from 'react';
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { CircularProgress, Box } from '@mui/material';
+import { CircularProgress, Box, Alert } from '@mui/material';
 import type { ReactNode } from 'react';
+import type { Permission } from '../utils/permissions';
 
 interface ProtectedRouteProps {
   children: ReactNode;
+  permission?: Permission;
 }
 
-export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
-  const { isAuthenticated, loading } = useAuth();
+export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, permission }) => {
+  const { isAuthenticated, loading, hasPermission } = useAuth();
 
   if (loading) {
     return (
@@ -28,5 +30,13 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     return <Navigate to="/" replace />;
   }
 
+  if (permission && !hasPermission(permission)) {
+    return (
+      <Alert severity="warning">
+        You do not have permission to view this page.
+      </Alert>
+    );
+  }
+
   return <>{children}</>;
 };
\ No newline at end of file
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+  TextField,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import { getErrorMessage } from '../services/api';
+
+interface ReLoginDialogProps {
+  open: boolean;
+  defaultUsername: string;
+  onSubmit: (username: string, password: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+export const ReLoginDialog: React.FC<ReLoginDialogProps> = ({ open, defaultUsername, onSubmit, onCancel }) => {
+  const [username, setUsername] = useState(defaultUsername);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    try {
+      await onSubmit(username, password);
+      setPassword('');
+    } catch (error) {
+      setError(getErrorMessage(error, 'Login failed. Please try again.'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} maxWidth="xs" fullWidth>
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>Session expired</DialogTitle>
+        <DialogContent>
+          <DialogContentText mb={1}>
+            Sign in again to continue. Your unsaved changes are kept and pending requests will be retried.
+          </DialogContentText>
+
+          {error && (
+            <Alert severity="error" sx={{ mb: 1 }}>
+              {error}
+            </Alert>
+          )}
+
+          <TextField
+            margin="dense"
+            required
+            fullWidth
+            label="Username"
+            autoComplete="username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            disabled={loading}
+          />
+          <TextField
+            autoFocus
+            margin="dense"
+            required
+            fullWidth
+            label="Password"
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            disabled={loading}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onCancel} disabled={loading}>
+            Log out
+          </Button>
+          <Button type="submit" variant="contained" disabled={loading || !username || !password}>
+            {loading ? <CircularProgress size={24} /> : 'Sign In'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
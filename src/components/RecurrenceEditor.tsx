@@ -0,0 +1,209 @@
+import React from 'react';
+import {
+  Box,
+  FormControl,
+  FormHelperText,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography
+} from '@mui/material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { Controller, useFormState, useWatch } from 'react-hook-form';
+import type { Control, FieldError } from 'react-hook-form';
+import dayjs from 'dayjs';
+import type { CreateTask, TaskRecurrence, RecurrenceFrequency, RecurrenceUnit } from '../services/api';
+import { FREQUENCY_LABELS, UNIT_LABELS, WEEKDAY_LABELS, createRecurrence } from '../utils/recurrence';
+
+interface RecurrenceEditorProps {
+  control: Control<CreateTask>;
+  disabled?: boolean;
+}
+
+type RecurrenceEnd = 'never' | 'until' | 'count';
+
+const FREQUENCY_UNITS: Record<Exclude<RecurrenceFrequency, 'custom'>, string> = {
+  daily: 'days',
+  weekly: 'weeks',
+  monthly: 'months',
+};
+
+// Whole numbers typed into the rule; an empty box is kept as NaN so the schema can report it
+const toNumber = (value: string) => (value === '' ? NaN : Number(value));
+
+// Schedule section of the task form: how often the task repeats and when the series ends
+export const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ control, disabled = false }) => {
+  const dueDate = useWatch({ control, name: 'due_date' });
+  const { errors } = useFormState({ control, name: 'recurrence' });
+  // Nested rule errors sit under the field name; a rule-wide error has a message of its own
+  const ruleErrors = errors.recurrence as (FieldError & Partial<Record<keyof TaskRecurrence, FieldError>>) | undefined;
+
+  return (
+    <Controller
+      name="recurrence"
+      control={control}
+      render={({ field }) => {
+        const rule = field.value ?? null;
+        const update = (changes: Partial<TaskRecurrence>) => field.onChange({ ...rule, ...changes });
+        const end: RecurrenceEnd = rule?.until ? 'until' : rule?.count !== undefined ? 'count' : 'never';
+
+        const handleEndChange = (next: RecurrenceEnd) => {
+          if (!rule) return;
+          field.onChange({
+            ...rule,
+            until: undefined,
+            count: undefined,
+            ...(next === 'until' && { until: dayjs(dueDate).add(3, 'month').format('YYYY-MM-DD') }),
+            ...(next === 'count' && { count: 10 }),
+          });
+        };
+
+        return (
+          <Box mt={1}>
+            <FormControl fullWidth margin="dense" error={!!ruleErrors?.message}>
+              <InputLabel>Repeat</InputLabel>
+              <Select<RecurrenceFrequency | ''>
+                value={rule?.frequency ?? ''}
+                onChange={(e) => field.onChange(e.target.value ? createRecurrence(e.target.value, dueDate) : null)}
+                onBlur={field.onBlur}
+                label="Repeat"
+                disabled={disabled}
+              >
+                <MenuItem value="">
+                  <em>Does not repeat</em>
+                </MenuItem>
+                {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map((frequency) => (
+                  <MenuItem key={frequency} value={frequency}>
+                    {FREQUENCY_LABELS[frequency]}
+                  </MenuItem>
+                ))}
+              </Select>
+              {ruleErrors?.message && <FormHelperText>{ruleErrors.message}</FormHelperText>}
+            </FormControl>
+
+            {rule && (
+              <>
+                <Box display="flex" alignItems="flex-start" gap={1}>
+                  <TextField
+                    label="Every"
+                    type="number"
+                    margin="dense"
+                    value={Number.isNaN(rule.interval) ? '' : rule.interval}
+                    onChange={(e) => update({ interval: toNumber(e.target.value) })}
+                    error={!!ruleErrors?.interval}
+                    helperText={ruleErrors?.interval?.message}
+                    disabled={disabled}
+                    sx={{ width: 100 }}
+                    slotProps={{ htmlInput: { min: 1 } }}
+                  />
+                  {rule.frequency === 'custom' ? (
+                    <FormControl margin="dense" sx={{ minWidth: 120 }}>
+                      <InputLabel>Unit</InputLabel>
+                      <Select<RecurrenceUnit>
+                        value={rule.unit ?? 'day'}
+                        onChange={(e) => update({ unit: e.target.value as RecurrenceUnit })}
+                        label="Unit"
+                        disabled={disabled}
+                      >
+                        {(Object.keys(UNIT_LABELS) as RecurrenceUnit[]).map((unit) => (
+                          <MenuItem key={unit} value={unit}>
+                            {UNIT_LABELS[unit]}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                    </FormControl>
+                  ) : (
+                    <Typography color="text.secondary" mt={3}>
+                      {FREQUENCY_UNITS[rule.frequency]}
+                    </Typography>
+                  )}
+                  {rule.frequency === 'monthly' && (
+                    <TextField
+                      label="On day"
+                      type="number"
+                      margin="dense"
+                      value={rule.month_day === undefined || Number.isNaN(rule.month_day) ? '' : rule.month_day}
+                      onChange={(e) => update({ month_day: toNumber(e.target.value) })}
+                      error={!!ruleErrors?.month_day}
+                      helperText={ruleErrors?.month_day?.message}
+                      disabled={disabled}
+                      sx={{ width: 100 }}
+                      slotProps={{ htmlInput: { min: 1, max: 31 } }}
+                    />
+                  )}
+                </Box>
+
+                {rule.frequency === 'weekly' && (
+                  <FormControl error={!!ruleErrors?.weekdays} margin="dense">
+                    <ToggleButtonGroup
+                      value={rule.weekdays ?? []}
+                      onChange={(_, weekdays: number[]) => update({ weekdays: [...weekdays].sort((a, b) => a - b) })}
+                      size="small"
+                      disabled={disabled}
+                      aria-label="Days of the week"
+                    >
+                      {WEEKDAY_LABELS.map((label, day) => (
+                        <ToggleButton key={label} value={day} aria-label={label}>
+                          {label}
+                        </ToggleButton>
+                      ))}
+                    </ToggleButtonGroup>
+                    {ruleErrors?.weekdays && <FormHelperText>{ruleErrors.weekdays.message}</FormHelperText>}
+                  </FormControl>
+                )}
+
+                <Box display="flex" alignItems="flex-start" gap={1}>
+                  <FormControl margin="dense" sx={{ minWidth: 140 }}>
+                    <InputLabel>Ends</InputLabel>
+                    <Select<RecurrenceEnd>
+                      value={end}
+                      onChange={(e) => handleEndChange(e.target.value as RecurrenceEnd)}
+                      label="Ends"
+                      disabled={disabled}
+                    >
+                      <MenuItem value="never">Never</MenuItem>
+                      <MenuItem value="until">On date</MenuItem>
+                      <MenuItem value="count">After</MenuItem>
+                    </Select>
+                  </FormControl>
+                  {end === 'until' && (
+                    <DatePicker
+                      label="End date"
+                      value={rule.until ? dayjs(rule.until) : null}
+                      onChange={(date) => update({ until: date?.isValid() ? date.format('YYYY-MM-DD') : date?.format() })}
+                      disabled={disabled}
+                      slotProps={{
+                        textField: {
+                          margin: 'dense',
+                          error: !!ruleErrors?.until,
+                          helperText: ruleErrors?.until?.message,
+                        },
+                      }}
+                    />
+                  )}
+                  {end === 'count' && (
+                    <TextField
+                      label="Occurrences"
+                      type="number"
+                      margin="dense"
+                      value={rule.count === undefined || Number.isNaN(rule.count) ? '' : rule.count}
+                      onChange={(e) => update({ count: toNumber(e.target.value) })}
+                      error={!!ruleErrors?.count}
+                      helperText={ruleErrors?.count?.message}
+                      disabled={disabled}
+                      sx={{ width: 130 }}
+                      slotProps={{ htmlInput: { min: 1 } }}
+                    />
+                  )}
+                </Box>
+              </>
+            )}
+          </Box>
+        );
+      }}
+    />
+  );
+};
@@ -0,0 +1,16 @@
+import React from 'react';
+import type { ReactNode } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import type { Permission } from '../utils/permissions';
+
+interface RequirePermissionProps {
+  permission: Permission;
+  children: ReactNode;
+  fallback?: ReactNode;
+}
+
+export const RequirePermission: React.FC<RequirePermissionProps> = ({ permission, children, fallback = null }) => {
+  const { hasPermission } = useAuth();
+
+  return <>{hasPermission(permission) ? children : fallback}</>;
+};
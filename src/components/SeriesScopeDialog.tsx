@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  FormControlLabel,
+  Radio,
+  RadioGroup
+} from '@mui/material';
+import type { SeriesEditScope } from '../services/api';
+
+interface SeriesScopeDialogProps {
+  open: boolean;
+  // Schedule changes always apply from this occurrence on, so only "all future" is offered
+  scheduleChanged: boolean;
+  onConfirm: (scope: SeriesEditScope) => void;
+  onCancel: () => void;
+}
+
+// Asks whether an edit to a recurring task applies to this occurrence or to the rest of the series too
+export const SeriesScopeDialog: React.FC<SeriesScopeDialogProps> = ({ open, scheduleChanged, onConfirm, onCancel }) => {
+  const [scope, setScope] = useState<SeriesEditScope>('this');
+  const effectiveScope = scheduleChanged ? 'future' : scope;
+
+  return (
+    <Dialog open={open} onClose={onCancel} maxWidth="xs" fullWidth>
+      <DialogTitle>Edit recurring task</DialogTitle>
+      <DialogContent>
+        <DialogContentText mb={1}>
+          {scheduleChanged
+            ? 'The schedule changes for this task and every later occurrence.'
+            : 'Apply these changes to:'}
+        </DialogContentText>
+        <RadioGroup value={effectiveScope} onChange={(e) => setScope(e.target.value as SeriesEditScope)}>
+          <FormControlLabel value="this" control={<Radio />} label="This task only" disabled={scheduleChanged} />
+          <FormControlLabel value="future" control={<Radio />} label="This and all future tasks" />
+        </RadioGroup>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel}>Cancel</Button>
+        <Button onClick={() => onConfirm(effectiveScope)} variant="contained">
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
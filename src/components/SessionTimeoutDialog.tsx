@@ -0,0 +1,64 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+  CircularProgress
+} from '@mui/material';
+
+interface SessionTimeoutDialogProps {
+  open: boolean;
+  expiresAt: number | null;
+  onExtend: () => Promise<void>;
+  onLogout: () => void;
+}
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
+
+export const SessionTimeoutDialog: React.FC<SessionTimeoutDialogProps> = ({ open, expiresAt, onExtend, onLogout }) => {
+  const [now, setNow] = useState(() => Date.now());
+  const [extending, setExtending] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [open]);
+
+  const handleExtend = async () => {
+    setExtending(true);
+    try {
+      await onExtend();
+    } finally {
+      setExtending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} maxWidth="xs" fullWidth>
+      <DialogTitle>Your session is about to expire</DialogTitle>
+      <DialogContent>
+        <DialogContentText>
+          You will be signed out in {expiresAt ? formatRemaining(expiresAt - now) : 'a moment'}.
+          Extend your session to keep working without losing unsaved changes.
+        </DialogContentText>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onLogout} disabled={extending}>
+          Log out
+        </Button>
+        <Button onClick={handleExtend} variant="contained" disabled={extending}>
+          {extending ? <CircularProgress size={24} /> : 'Extend Session'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
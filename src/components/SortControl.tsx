@@ -0,0 +1,38 @@
+import { FormControl, InputLabel, Select, MenuItem, IconButton, Stack } from '@mui/material';
+import { ArrowUpward, ArrowDownward } from '@mui/icons-material';
+import type { SortDirection } from '../services/api';
+
+interface SortControlProps<T extends string> {
+  fields: { value: T; label: string }[];
+  sortBy: T;
+  sortDir: SortDirection;
+  onChange: (sortBy: T, sortDir: SortDirection) => void;
+}
+
+export const SortControl = <T extends string>({ fields, sortBy, sortDir, onChange }: SortControlProps<T>) => {
+  return (
+    <Stack direction="row" spacing={1} alignItems="center">
+      <FormControl size="small" sx={{ minWidth: 160 }}>
+        <InputLabel>Sort by</InputLabel>
+        <Select
+          value={sortBy}
+          onChange={(e) => onChange(e.target.value as T, sortDir)}
+          label="Sort by"
+        >
+          {fields.map((field) => (
+            <MenuItem key={field.value} value={field.value}>
+              {field.label}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+      <IconButton
+        onClick={() => onChange(sortBy, sortDir === 'asc' ? 'desc' : 'asc')}
+        title={sortDir === 'asc' ? 'Ascending' : 'Descending'}
+        size="small"
+      >
+        {sortDir === 'asc' ? <ArrowUpward /> : <ArrowDownward />}
+      </IconButton>
+    </Stack>
+  );
+};
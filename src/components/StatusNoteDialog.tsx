@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  TextField,
+  Alert
+} from '@mui/material';
+import type { Task } from '../services/api';
+import { STATUS_LABELS, getOpenChecklistWarning } from '../utils/taskUtils';
+
+const NOTE_MAX_LENGTH = 500;
+
+interface StatusNoteDialogProps {
+  // Task and target status; null keeps the dialog closed
+  change: { task: Task; status: Task['status'] } | null;
+  onConfirm: (note: string) => void;
+  onCancel: () => void;
+}
+
+// Confirms a status change and asks for an optional reason to record in the activity log
+export const StatusNoteDialog: React.FC<StatusNoteDialogProps> = ({ change, onConfirm, onCancel }) => {
+  const [note, setNote] = useState('');
+  const checklistWarning = change?.status === 'completed' ? getOpenChecklistWarning(change.task) : null;
+
+  useEffect(() => {
+    if (change) setNote('');
+  }, [change]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onConfirm(note.trim());
+  };
+
+  return (
+    <Dialog open={!!change} onClose={onCancel} maxWidth="xs" fullWidth>
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>
+          Mark as {change ? STATUS_LABELS[change.status] : ''}
+        </DialogTitle>
+        <DialogContent>
+          <DialogContentText mb={1}>
+            {change && `"${change.task.title}" moves from ${STATUS_LABELS[change.task.status]} to ${STATUS_LABELS[change.status]}.`}
+          </DialogContentText>
+          {checklistWarning && (
+            <Alert severity="warning" sx={{ mb: 1 }}>
+              {checklistWarning} Complete it anyway?
+            </Alert>
+          )}
+          <TextField
+            autoFocus
+            margin="dense"
+            label="Note (optional)"
+            placeholder="Why is the status changing?"
+            fullWidth
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            slotProps={{ htmlInput: { maxLength: NOTE_MAX_LENGTH } }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onCancel}>Cancel</Button>
+          <Button type="submit" variant="contained" color={checklistWarning ? 'warning' : 'primary'}>
+            {checklistWarning ? 'Complete anyway' : 'Change status'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useEffect, useSyncExternalStore } from 'react';
+import {
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell
+} from '@mui/material';
+import { CloudOff, Sync } from '@mui/icons-material';
+import dayjs from 'dayjs';
+import { offlineSync } from '../services/offlineSync';
+import type { QueuedMutation } from '../services/offlineSync';
+import { useNotification } from '../hooks/useNotification';
+
+const RESOURCE_LABELS: Record<QueuedMutation['resource'], string> = {
+  employees: 'employee',
+  tasks: 'task',
+};
+
+const describeMutation = (mutation: QueuedMutation, server?: Record<string, unknown>) => {
+  const source = { ...server, ...mutation.record, ...mutation.payload };
+  const name = source.title ?? source.name;
+  return `${mutation.action} ${RESOURCE_LABELS[mutation.resource]}${typeof name === 'string' ? ` "${name}"` : ''}`;
+};
+
+const formatValue = (field: string, value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'string' && field.endsWith('_date')) return dayjs(value).format('MMM DD, YYYY HH:mm');
+  return String(value);
+};
+
+// AppBar indicator for offline mode and queued changes, plus the prompt for conflicting edits
+export const SyncStatus: React.FC = () => {
+  const { notifyError } = useNotification();
+  const { online, pending, conflict, rejected } = useSyncExternalStore(offlineSync.subscribe, offlineSync.getState);
+
+  useEffect(() => {
+    if (rejected.length === 0) return;
+    rejected.forEach(({ mutation, error }) =>
+      notifyError(error, `Could not ${describeMutation(mutation)} made offline`));
+    offlineSync.dismissRejected();
+  }, [rejected, notifyError]);
+
+  const conflictFields = conflict ? Object.keys(conflict.mutation.payload ?? {}) : [];
+
+  return (
+    <>
+      {!online ? (
+        <Chip
+          icon={<CloudOff />}
+          label={pending.length > 0 ? `Offline · ${pending.length} pending` : 'Offline'}
+          color="warning"
+          size="small"
+          sx={{ mr: 2 }}
+          title="Changes are saved on this device and sent when the connection returns"
+        />
+      ) : pending.length > 0 && (
+        <Chip
+          icon={<Sync />}
+          label={conflict ? 'Sync paused' : `Syncing ${pending.length} change${pending.length === 1 ? '' : 's'}`}
+          color="info"
+          size="small"
+          sx={{ mr: 2 }}
+        />
+      )}
+
+      <Dialog open={!!conflict} maxWidth="sm" fullWidth>
+        <DialogTitle>Conflicting change</DialogTitle>
+        {conflict && (
+          <DialogContent>
+            <DialogContentText mb={2}>
+              Someone changed this {RESOURCE_LABELS[conflict.mutation.resource]} after you went offline.
+              Choose which version to keep for your {describeMutation(conflict.mutation, conflict.server)}.
+            </DialogContentText>
+            {conflict.mutation.action === 'update' && (
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Field</TableCell>
+                    <TableCell>Your change</TableCell>
+                    <TableCell>Server value</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {conflictFields.map(field => (
+                    <TableRow key={field}>
+                      <TableCell component="th" scope="row" sx={{ fontWeight: 500 }}>
+                        {field}
+                      </TableCell>
+                      <TableCell>{formatValue(field, conflict.mutation.payload?.[field])}</TableCell>
+                      <TableCell>{formatValue(field, conflict.server[field])}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </DialogContent>
+        )}
+        <DialogActions>
+          <Button onClick={() => offlineSync.resolveConflict('server')}>
+            Keep server version
+          </Button>
+          <Button onClick={() => offlineSync.resolveConflict('mine')} variant="contained">
+            {conflict?.mutation.action === 'delete' ? 'Delete anyway' : 'Apply my change'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
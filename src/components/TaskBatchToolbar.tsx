@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import {
+  Paper,
+  Typography,
+  Button,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  TextField,
+  Popover,
+  Stack,
+  Box
+} from '@mui/material';
+import { Delete, Event } from '@mui/icons-material';
+import type { Task, Employee } from '../services/api';
+import { TASK_STATUSES, STATUS_LABELS } from '../utils/taskUtils';
+import { RequirePermission } from './RequirePermission';
+
+interface TaskBatchToolbarProps {
+  selectedCount: number;
+  // Tasks matching the filters across all pages
+  filteredCount: number;
+  employees: Employee[];
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onChangeStatus: (status: Task['status']) => void;
+  onReassign: (employeeId: number) => void;
+  onShiftDueDate: (days: number) => void;
+  onDelete: () => void;
+}
+
+export const TaskBatchToolbar: React.FC<TaskBatchToolbarProps> = ({
+  selectedCount,
+  filteredCount,
+  employees,
+  onSelectAll,
+  onClearSelection,
+  onChangeStatus,
+  onReassign,
+  onShiftDueDate,
+  onDelete,
+}) => {
+  const [shiftAnchor, setShiftAnchor] = useState<HTMLElement | null>(null);
+  const [shiftDays, setShiftDays] = useState('7');
+  const disabled = selectedCount === 0;
+
+  const handleShift = () => {
+    const days = Number(shiftDays);
+    if (!Number.isInteger(days) || days === 0) return;
+    setShiftAnchor(null);
+    onShiftDueDate(days);
+  };
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2, mb: 3, position: 'sticky', top: 8, zIndex: 2 }}>
+      <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems={{ md: 'center' }} flexWrap="wrap" useFlexGap>
+        <Box display="flex" alignItems="center" gap={1}>
+          <Typography variant="subtitle1" fontWeight={500}>
+            {selectedCount} selected
+          </Typography>
+          <Button size="small" onClick={onSelectAll} disabled={filteredCount === 0}>
+            Select all {filteredCount} matching
+          </Button>
+          <Button size="small" onClick={onClearSelection} disabled={disabled}>
+            Clear
+          </Button>
+        </Box>
+
+        <RequirePermission permission="tasks:update_status">
+          <FormControl size="small" sx={{ minWidth: 150 }} disabled={disabled}>
+            <InputLabel>Set status</InputLabel>
+            <Select
+              value=""
+              onChange={(e) => onChangeStatus(e.target.value as Task['status'])}
+              label="Set status"
+            >
+              {TASK_STATUSES.map((status) => (
+                <MenuItem key={status} value={status}>
+                  {STATUS_LABELS[status]}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </RequirePermission>
+
+        <RequirePermission permission="tasks:edit">
+          <FormControl size="small" sx={{ minWidth: 170 }} disabled={disabled}>
+            <InputLabel>Reassign to</InputLabel>
+            <Select
+              value=""
+              onChange={(e) => onReassign(Number(e.target.value))}
+              label="Reassign to"
+            >
+              {employees.map((employee) => (
+                <MenuItem key={employee.id} value={employee.id}>
+                  {employee.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <Button
+            variant="outlined"
+            startIcon={<Event />}
+            onClick={(e) => setShiftAnchor(e.currentTarget)}
+            disabled={disabled}
+          >
+            Shift due date
+          </Button>
+          <Popover
+            open={Boolean(shiftAnchor)}
+            anchorEl={shiftAnchor}
+            onClose={() => setShiftAnchor(null)}
+            anchorOrigin={{ vertical: 'bottom', horizontal: 'left' }}
+          >
+            <Stack direction="row" spacing={1} p={2} alignItems="center">
+              <TextField
+                size="small"
+                type="number"
+                label="Days"
+                value={shiftDays}
+                onChange={(e) => setShiftDays(e.target.value)}
+                helperText="Negative moves earlier"
+                sx={{ width: 140 }}
+              />
+              <Button variant="contained" onClick={handleShift}>
+                Apply
+              </Button>
+            </Stack>
+          </Popover>
+        </RequirePermission>
+
+        <RequirePermission permission="tasks:delete">
+          <Button
+            variant="outlined"
+            color="error"
+            startIcon={<Delete />}
+            onClick={onDelete}
+            disabled={disabled}
+          >
+            Delete
+          </Button>
+        </RequirePermission>
+      </Stack>
+    </Paper>
+  );
+};
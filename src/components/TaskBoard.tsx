@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Box, Paper, Typography, Chip } from '@mui/material';
+import type { Task } from '../services/api';
+import { TaskCard } from './TaskCard';
+import { useAuth } from '../contexts/AuthContext';
+import { TASK_STATUSES, STATUS_LABELS, getStatusColor } from '../utils/taskUtils';
+
+interface TaskBoardProps {
+  tasks: Task[];
+  onMove: (task: Task, newStatus: Task['status']) => void;
+  onEdit: (task: Task) => void;
+  onDelete: (task: Task) => void;
+  onStatusUpdate: (task: Task, newStatus: Task['status']) => void;
+  onOpen?: (task: Task) => void;
+  onShowDependencies?: (task: Task) => void;
+  // Open blockers of a task, shown on its card
+  getBlockers?: (task: Task) => Task[];
+  selectedIds?: Set<number>;
+  onToggleSelect?: (task: Task) => void;
+}
+
+export const TaskBoard: React.FC<TaskBoardProps> = ({
+  tasks,
+  onMove,
+  onEdit,
+  onDelete,
+  onStatusUpdate,
+  onOpen,
+  onShowDependencies,
+  getBlockers,
+  selectedIds,
+  onToggleSelect,
+}) => {
+  const { hasPermission } = useAuth();
+  const canMove = hasPermission('tasks:update_status');
+  const [draggedTaskId, setDraggedTaskId] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<Task['status'] | null>(null);
+
+  const handleDragStart = (event: React.DragEvent<HTMLElement>, task: Task) => {
+    event.dataTransfer.setData('text/plain', String(task.id));
+    event.dataTransfer.effectAllowed = 'move';
+    setDraggedTaskId(task.id);
+  };
+
+  const handleDragEnd = () => {
+    setDraggedTaskId(null);
+    setDropTarget(null);
+  };
+
+  const handleDragOver = (event: React.DragEvent<HTMLElement>, status: Task['status']) => {
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+    if (dropTarget !== status) setDropTarget(status);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLElement>, status: Task['status']) => {
+    event.preventDefault();
+    const taskId = Number(event.dataTransfer.getData('text/plain'));
+    const task = tasks.find(t => t.id === taskId);
+    if (task && task.status !== status) {
+      onMove(task, status);
+    }
+    handleDragEnd();
+  };
+
+  return (
+    <Box
+      display="grid"
+      gridTemplateColumns={{ xs: '1fr', md: 'repeat(3, 1fr)' }}
+      gap={2}
+      alignItems="start"
+    >
+      {TASK_STATUSES.map((status) => {
+        const columnTasks = tasks.filter(t => t.status === status);
+
+        return (
+          <Paper
+            key={status}
+            variant="outlined"
+            onDragOver={(e) => handleDragOver(e, status)}
+            onDragLeave={() => setDropTarget(null)}
+            onDrop={(e) => handleDrop(e, status)}
+            sx={{
+              p: 2,
+              minHeight: 400,
+              bgcolor: dropTarget === status ? 'action.hover' : 'grey.50',
+              borderStyle: dropTarget === status ? 'dashed' : 'solid',
+            }}
+          >
+            <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+              <Typography variant="h6" component="h2">
+                {STATUS_LABELS[status]}
+              </Typography>
+              <Chip label={columnTasks.length} color={getStatusColor(status)} size="small" />
+            </Box>
+
+            <Box display="flex" flexDirection="column" gap={2}>
+              {columnTasks.map((task) => (
+                <Box
+                  key={task.id}
+                  draggable={canMove}
+                  onDragStart={(e) => handleDragStart(e, task)}
+                  onDragEnd={handleDragEnd}
+                  sx={{ cursor: canMove ? 'grab' : 'default', opacity: draggedTaskId === task.id ? 0.5 : 1 }}
+                >
+                  <TaskCard
+                    task={task}
+                    onEdit={onEdit}
+                    onDelete={onDelete}
+                    onStatusUpdate={onStatusUpdate}
+                    onOpen={onOpen}
+                    onShowDependencies={onShowDependencies}
+                    blockers={getBlockers?.(task)}
+                    selected={selectedIds?.has(task.id)}
+                    onToggleSelect={onToggleSelect}
+                  />
+                </Box>
+              ))}
+            </Box>
+          </Paper>
+        );
+      })}
+    </Box>
+  );
+};
@@ -0,0 +1,238 @@
+import React, { useState } from 'react';
+import { Box, Paper, Typography, Chip, Link } from '@mui/material';
+import { Warning } from '@mui/icons-material';
+import dayjs from 'dayjs';
+import type { Dayjs } from 'dayjs';
+import type { Task } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { getStatusColor, isOverdue } from '../utils/taskUtils';
+
+export type CalendarView = 'month' | 'week' | 'day';
+
+interface TaskCalendarProps {
+  tasks: Task[];
+  view: CalendarView;
+  date: Dayjs;
+  onMove: (task: Task, newDueDate: Dayjs) => void;
+  onTaskClick: (task: Task) => void;
+  // Called with the clicked day, or the clicked hour in the day view
+  onSlotClick: (slot: Dayjs) => void;
+  onShowDay: (day: Dayjs) => void;
+}
+
+const MONTH_CELL_LIMIT = 3;
+const WEEKDAYS = Array.from({ length: 7 }, (_, index) => dayjs().startOf('week').add(index, 'day').format('ddd'));
+const HOURS = Array.from({ length: 24 }, (_, index) => index);
+
+const dayKey = (date: Dayjs) => date.format('YYYY-MM-DD');
+
+const isTaskOverdue = (task: Task) => task.status !== 'completed' && !!task.due_date && isOverdue(task.due_date);
+
+export const TaskCalendar: React.FC<TaskCalendarProps> = ({
+  tasks,
+  view,
+  date,
+  onMove,
+  onTaskClick,
+  onSlotClick,
+  onShowDay,
+}) => {
+  const { hasPermission } = useAuth();
+  const canEdit = hasPermission('tasks:edit');
+  const canCreate = hasPermission('tasks:create');
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const tasksByDay = new Map<string, Task[]>();
+  tasks
+    .filter(task => task.due_date)
+    .sort((a, b) => dayjs(a.due_date).valueOf() - dayjs(b.due_date).valueOf())
+    .forEach(task => {
+      const key = dayKey(dayjs(task.due_date));
+      tasksByDay.set(key, [...(tasksByDay.get(key) ?? []), task]);
+    });
+
+  // Dropping on a day keeps the task's time of day; dropping on an hour slot also sets the hour
+  const handleDrop = (event: React.DragEvent<HTMLElement>, day: Dayjs, hour?: number) => {
+    event.preventDefault();
+    setDropTarget(null);
+    const task = tasks.find(t => t.id === Number(event.dataTransfer.getData('text/plain')));
+    if (!task?.due_date) return;
+
+    const due = dayjs(task.due_date);
+    const target = day.hour(hour ?? due.hour()).minute(due.minute()).second(due.second());
+    if (!target.isSame(due)) onMove(task, target);
+  };
+
+  const dropProps = (key: string, day: Dayjs, hour?: number) => ({
+    onDragOver: (event: React.DragEvent<HTMLElement>) => {
+      if (!canEdit) return;
+      event.preventDefault();
+      event.dataTransfer.dropEffect = 'move';
+      if (dropTarget !== key) setDropTarget(key);
+    },
+    onDragLeave: () => setDropTarget(null),
+    onDrop: (event: React.DragEvent<HTMLElement>) => handleDrop(event, day, hour),
+    onClick: () => {
+      if (canCreate) onSlotClick(hour === undefined ? day : day.hour(hour));
+    },
+  });
+
+  const slotSx = (key: string, muted = false) => ({
+    bgcolor: dropTarget === key ? 'action.hover' : muted ? 'grey.50' : 'background.paper',
+    outline: dropTarget === key ? 2 : 0,
+    outlineColor: 'primary.main',
+    outlineStyle: 'dashed',
+    outlineOffset: -2,
+    cursor: canCreate ? 'pointer' : 'default',
+  });
+
+  const renderTask = (task: Task, showTime = false) => {
+    const overdue = isTaskOverdue(task);
+    const time = dayjs(task.due_date).format('HH:mm');
+
+    return (
+      <Chip
+        key={task.id}
+        size="small"
+        label={showTime ? `${time} ${task.title}` : task.title}
+        title={`${task.title} (${task.status}, due ${time}${overdue ? ', overdue' : ''})`}
+        color={getStatusColor(task.status)}
+        variant={overdue ? 'outlined' : 'filled'}
+        icon={overdue ? <Warning color="error" /> : undefined}
+        draggable={canEdit}
+        onDragStart={(event: React.DragEvent<HTMLDivElement>) => {
+          event.dataTransfer.setData('text/plain', String(task.id));
+          event.dataTransfer.effectAllowed = 'move';
+        }}
+        onClick={(event: React.MouseEvent) => {
+          event.stopPropagation();
+          if (canEdit) onTaskClick(task);
+        }}
+        sx={{
+          justifyContent: 'flex-start',
+          maxWidth: '100%',
+          cursor: canEdit ? 'grab' : 'default',
+          ...(overdue && { borderColor: 'error.main', color: 'error.main' }),
+        }}
+      />
+    );
+  };
+
+  const renderWeekdayHeader = () => (
+    <Box display="grid" gridTemplateColumns="repeat(7, 1fr)" mb={1}>
+      {WEEKDAYS.map(weekday => (
+        <Typography key={weekday} variant="caption" color="text.secondary" textAlign="center">
+          {weekday}
+        </Typography>
+      ))}
+    </Box>
+  );
+
+  const renderDayNumber = (day: Dayjs) => (
+    <Typography
+      variant="body2"
+      fontWeight={day.isSame(dayjs(), 'day') ? 700 : 400}
+      color={day.isSame(dayjs(), 'day') ? 'primary.main' : undefined}
+      mb={0.5}
+    >
+      {day.format(view === 'month' ? 'D' : 'ddd D')}
+    </Typography>
+  );
+
+  if (view === 'day') {
+    const dayTasks = tasksByDay.get(dayKey(date)) ?? [];
+
+    return (
+      <Paper variant="outlined">
+        {HOURS.map(hour => {
+          const key = `${dayKey(date)}T${hour}`;
+          const hourTasks = dayTasks.filter(task => dayjs(task.due_date).hour() === hour);
+
+          return (
+            <Box
+              key={hour}
+              display="flex"
+              borderBottom={1}
+              borderColor="divider"
+              minHeight={44}
+              {...dropProps(key, date, hour)}
+              sx={slotSx(key)}
+            >
+              <Typography variant="caption" color="text.secondary" width={56} flexShrink={0} p={1}>
+                {date.hour(hour).format('HH:00')}
+              </Typography>
+              <Box display="flex" flexWrap="wrap" gap={0.5} p={0.5} flex={1}>
+                {hourTasks.map(task => renderTask(task, true))}
+              </Box>
+            </Box>
+          );
+        })}
+      </Paper>
+    );
+  }
+
+  if (view === 'week') {
+    const start = date.startOf('week');
+
+    return (
+      <Box display="grid" gridTemplateColumns="repeat(7, minmax(0, 1fr))" gap={1}>
+        {Array.from({ length: 7 }, (_, index) => {
+          const day = start.add(index, 'day');
+          const key = dayKey(day);
+
+          return (
+            <Paper key={key} variant="outlined" {...dropProps(key, day)} sx={{ ...slotSx(key), p: 1, minHeight: 400 }}>
+              {renderDayNumber(day)}
+              <Box display="flex" flexDirection="column" gap={0.5}>
+                {(tasksByDay.get(key) ?? []).map(task => renderTask(task, true))}
+              </Box>
+            </Paper>
+          );
+        })}
+      </Box>
+    );
+  }
+
+  const start = date.startOf('month').startOf('week');
+  const weeks = Math.ceil(date.endOf('month').endOf('week').diff(start, 'day') / 7);
+
+  return (
+    <>
+      {renderWeekdayHeader()}
+      <Box display="grid" gridTemplateColumns="repeat(7, minmax(0, 1fr))" gap={0.5}>
+        {Array.from({ length: weeks * 7 }, (_, index) => {
+          const day = start.add(index, 'day');
+          const key = dayKey(day);
+          const dayTasks = tasksByDay.get(key) ?? [];
+          const hidden = dayTasks.length - MONTH_CELL_LIMIT;
+
+          return (
+            <Paper
+              key={key}
+              variant="outlined"
+              {...dropProps(key, day)}
+              sx={{ ...slotSx(key, !day.isSame(date, 'month')), p: 0.5, minHeight: 110 }}
+            >
+              {renderDayNumber(day)}
+              <Box display="flex" flexDirection="column" gap={0.5}>
+                {dayTasks.slice(0, MONTH_CELL_LIMIT).map(task => renderTask(task))}
+                {hidden > 0 && (
+                  <Link
+                    component="button"
+                    variant="caption"
+                    onClick={(event: React.MouseEvent) => {
+                      event.stopPropagation();
+                      onShowDay(day);
+                    }}
+                  >
+                    +{hidden} more
+                  </Link>
+                )}
+              </Box>
+            </Paper>
+          );
+        })}
+      </Box>
+    </>
+  );
+};
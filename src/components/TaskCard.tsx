@@ -0,0 +1,268 @@
+import React from 'react';
+import {
+  Typography,
+  Button,
+  Card,
+  CardContent,
+  CardActions,
+  IconButton,
+  Box,
+  Chip,
+  Stack,
+  Checkbox,
+  Link,
+  LinearProgress,
+  Tooltip
+} from '@mui/material';
+import { Edit, Delete, Person, Schedule, Forum, Flag, Repeat, Block, AccountTree } from '@mui/icons-material';
+import dayjs from 'dayjs';
+import type { Task } from '../services/api';
+import {
+  getStatusColor,
+  getStatusIcon,
+  isOverdue,
+  getChecklistProgress,
+  getPriorityColor,
+  PRIORITY_LABELS,
+  formatCustomFieldValue
+} from '../utils/taskUtils';
+import { describeRecurrence } from '../utils/recurrence';
+import { getBlockedMessage } from '../utils/dependencies';
+import { RequirePermission } from './RequirePermission';
+import { LabelChip } from './TaskLabelsField';
+import { useRemoteChange } from '../hooks/useRemoteChange';
+import { useCustomFields } from '../hooks/useCustomFields';
+
+interface TaskCardProps {
+  task: Task;
+  onEdit: (task: Task) => void;
+  onDelete: (task: Task) => void;
+  onStatusUpdate: (task: Task, newStatus: Task['status']) => void;
+  // Opens comments and activity; the title becomes a link when given
+  onOpen?: (task: Task) => void;
+  // Opens the chain of tasks this one waits for and holds up
+  onShowDependencies?: (task: Task) => void;
+  // Blockers that are not completed yet; a pending task cannot start while there are any
+  blockers?: Task[];
+  // Selection checkbox is shown only when a toggle handler is given
+  selected?: boolean;
+  onToggleSelect?: (task: Task) => void;
+}
+
+export const TaskCard: React.FC<TaskCardProps> = ({
+  task,
+  onEdit,
+  onDelete,
+  onStatusUpdate,
+  onOpen,
+  onShowDependencies,
+  blockers = [],
+  selected = false,
+  onToggleSelect,
+}) => {
+  // Flash cards that another user just changed
+  const { highlighted } = useRemoteChange('tasks', task.id);
+  const checklist = getChecklistProgress(task.checklist);
+  const { fields } = useCustomFields();
+  const customValues = fields.filter(field => {
+    const value = task.custom_fields?.[field.key];
+    return value !== undefined && value !== null && value !== '';
+  });
+  const blockedMessage = task.status === 'pending' ? getBlockedMessage(blockers) : null;
+
+  return (
+    <Card
+      sx={{
+        transition: 'box-shadow 0.5s',
+        ...(selected && { outline: 2, outlineColor: 'primary.main' }),
+        ...(highlighted && { boxShadow: theme => `0 0 0 3px ${theme.palette.secondary.main}` }),
+      }}
+    >
+      <CardContent>
+        <Box display="flex" justifyContent="space-between" alignItems="flex-start" mb={1}>
+          {onToggleSelect && (
+            <Checkbox
+              checked={selected}
+              onChange={() => onToggleSelect(task)}
+              size="small"
+              sx={{ p: 0, mr: 1, mt: 0.5 }}
+              slotProps={{ input: { 'aria-label': `Select ${task.title}` } }}
+            />
+          )}
+          <Typography variant="h6" component="h2" flex={1}>
+            {onOpen ? (
+              <Link component="button" variant="inherit" color="inherit" underline="hover" textAlign="left" onClick={() => onOpen(task)}>
+                {task.title}
+              </Link>
+            ) : task.title}
+          </Typography>
+          <Chip
+            label={task.status}
+            color={getStatusColor(task.status)}
+            icon={getStatusIcon(task.status)}
+            size="small"
+          />
+        </Box>
+
+        {(task.priority || (task.labels?.length ?? 0) > 0 || blockedMessage) && (
+          <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap mb={1}>
+            {blockedMessage && (
+              <Tooltip title={blockedMessage}>
+                <Chip label="Blocked" color="error" icon={<Block />} size="small" />
+              </Tooltip>
+            )}
+            {task.priority && (
+              <Chip
+                label={PRIORITY_LABELS[task.priority]}
+                color={getPriorityColor(task.priority)}
+                icon={<Flag />}
+                size="small"
+                variant="outlined"
+              />
+            )}
+            {task.labels?.map(label => <LabelChip key={label.name} label={label} />)}
+          </Stack>
+        )}
+
+        {task.description && (
+          <Typography variant="body2" color="text.secondary" mb={2}>
+            {task.description}
+          </Typography>
+        )}
+
+        {task.employee && (
+          <Box display="flex" alignItems="center" mb={1}>
+            <Person sx={{ mr: 1, color: 'text.secondary' }} />
+            <Typography variant="body2" color="text.secondary">
+              {task.employee.name} ({task.employee.department})
+            </Typography>
+          </Box>
+        )}
+
+        {task.due_date && (
+          <Box display="flex" alignItems="center" mb={2}>
+            <Schedule sx={{ mr: 1, color: isOverdue(task.due_date) ? 'error.main' : 'text.secondary' }} />
+            <Typography
+              variant="body2"
+              color={isOverdue(task.due_date) ? 'error.main' : 'text.secondary'}
+            >
+              Due: {dayjs(task.due_date).format('MMM DD, YYYY HH:mm')}
+              {isOverdue(task.due_date) && ' (Overdue)'}
+            </Typography>
+          </Box>
+        )}
+
+        {task.recurrence && (
+          <Box display="flex" alignItems="center" mb={2} mt={task.due_date ? -1 : 0}>
+            <Repeat sx={{ mr: 1, color: 'text.secondary' }} />
+            <Typography variant="body2" color="text.secondary">
+              {describeRecurrence(task.recurrence)}
+              {task.occurrence && task.occurrence > 1 && ` · #${task.occurrence}`}
+            </Typography>
+          </Box>
+        )}
+
+        {customValues.length > 0 && (
+          <Box mb={2}>
+            {customValues.map(field => (
+              <Typography key={field.id} variant="body2" color="text.secondary">
+                {field.label}: {formatCustomFieldValue(field, task.custom_fields?.[field.key])}
+              </Typography>
+            ))}
+          </Box>
+        )}
+
+        {checklist.total > 0 && (
+          <Box mb={2}>
+            <Box display="flex" justifyContent="space-between" mb={0.5}>
+              <Typography variant="body2" color="text.secondary">
+                Checklist
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {checklist.done}/{checklist.total}
+              </Typography>
+            </Box>
+            <LinearProgress
+              variant="determinate"
+              value={(checklist.done / checklist.total) * 100}
+              color={checklist.open === 0 ? 'success' : 'primary'}
+              aria-label={`${checklist.done} of ${checklist.total} checklist items done`}
+            />
+          </Box>
+        )}
+
+        {task.status !== 'completed' && (
+          <RequirePermission permission="tasks:update_status">
+            <Stack direction="row" spacing={1} mb={2}>
+              {task.status === 'pending' && (
+                // Disabled buttons fire no events, so the tooltip sits on a wrapper
+                <Tooltip title={blockedMessage ?? ''}>
+                  <span>
+                    <Button
+                      size="small"
+                      variant="outlined"
+                      onClick={() => onStatusUpdate(task, 'ongoing')}
+                      disabled={!!blockedMessage}
+                    >
+                      Start
+                    </Button>
+                  </span>
+                </Tooltip>
+              )}
+              {task.status === 'ongoing' && (
+                <Button
+                  size="small"
+                  variant="contained"
+                  color="success"
+                  onClick={() => onStatusUpdate(task, 'completed')}
+                >
+                  Complete
+                </Button>
+              )}
+              {task.status === 'ongoing' && (
+                <Button
+                  size="small"
+                  variant="outlined"
+                  onClick={() => onStatusUpdate(task, 'pending')}
+                >
+                  Reset
+                </Button>
+              )}
+            </Stack>
+          </RequirePermission>
+        )}
+      </CardContent>
+
+      <CardActions>
+        {onOpen && (
+          <IconButton onClick={() => onOpen(task)} title="Comments and Activity">
+            <Forum />
+          </IconButton>
+        )}
+        {onShowDependencies && (
+          <IconButton onClick={() => onShowDependencies(task)} title="Dependencies">
+            <AccountTree />
+          </IconButton>
+        )}
+        <RequirePermission permission="tasks:edit">
+          <IconButton
+            onClick={() => onEdit(task)}
+            color="primary"
+            title="Edit Task"
+          >
+            <Edit />
+          </IconButton>
+        </RequirePermission>
+        <RequirePermission permission="tasks:delete">
+          <IconButton
+            onClick={() => onDelete(task)}
+            color="error"
+            title="Delete Task"
+          >
+            <Delete />
+          </IconButton>
+        </RequirePermission>
+      </CardActions>
+    </Card>
+  );
+};
@@ -0,0 +1,278 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Drawer,
+  Box,
+  Typography,
+  IconButton,
+  Chip,
+  Tabs,
+  Tab,
+  TextField,
+  Button,
+  Alert,
+  CircularProgress,
+  Divider,
+  Stack
+} from '@mui/material';
+import { Close, Person, Schedule, Reply } from '@mui/icons-material';
+import dayjs from 'dayjs';
+import { apiService, getErrorMessage, queryKeys } from '../services/api';
+import type { Task, Employee, TaskComment, TaskActivity } from '../services/api';
+import { useQuery } from '../hooks/useQuery';
+import { useAuth } from '../contexts/AuthContext';
+import { useNotification } from '../hooks/useNotification';
+import { STATUS_LABELS, getStatusColor, getStatusIcon, isOverdue } from '../utils/taskUtils';
+
+const COMMENT_MAX_LENGTH = 2000;
+// Deeper replies stay at this indent so long threads remain readable
+const MAX_THREAD_DEPTH = 4;
+
+const NO_COMMENTS: TaskComment[] = [];
+const NO_ACTIVITY: TaskActivity[] = [];
+
+const formatTimestamp = (value: string) => dayjs(value).format('MMM DD, YYYY HH:mm');
+
+const describeActivity = (entry: TaskActivity, employees: Employee[]) => {
+  const employeeName = (id: TaskActivity['from']) =>
+    id === null || id === undefined ? 'Unassigned' : employees.find(e => e.id === Number(id))?.name ?? `#${id}`;
+  const statusLabel = (status: TaskActivity['from']) =>
+    STATUS_LABELS[status as Task['status']] ?? String(status ?? '—');
+  const dateLabel = (date: TaskActivity['from']) => (date ? formatTimestamp(String(date)) : 'no due date');
+
+  switch (entry.kind) {
+    case 'created':
+      return 'created the task';
+    case 'status_changed':
+      return `changed status from ${statusLabel(entry.from)} to ${statusLabel(entry.to)}`;
+    case 'reassigned':
+      return `reassigned from ${employeeName(entry.from)} to ${employeeName(entry.to)}`;
+    case 'due_date_changed':
+      return `moved the due date from ${dateLabel(entry.from)} to ${dateLabel(entry.to)}`;
+    default:
+      return 'updated the task';
+  }
+};
+
+interface TaskDetailsProps {
+  task: Task;
+  employees: Employee[];
+  onClose: () => void;
+}
+
+const TaskDetails: React.FC<TaskDetailsProps> = ({ task, employees, onClose }) => {
+  const { hasPermission } = useAuth();
+  const { notifyError } = useNotification();
+  const canComment = hasPermission('tasks:comment');
+  const [tab, setTab] = useState<'comments' | 'activity'>('comments');
+  const [draft, setDraft] = useState('');
+  const [replyTo, setReplyTo] = useState<TaskComment | null>(null);
+  const [posting, setPosting] = useState(false);
+
+  const commentQuery = useQuery(queryKeys.taskComments(task.id), () => apiService.getTaskComments(task.id));
+  const activityQuery = useQuery(queryKeys.taskActivity(task.id), () => apiService.getTaskActivity(task.id));
+  const comments = commentQuery.data ?? NO_COMMENTS;
+  const activity = activityQuery.data ?? NO_ACTIVITY;
+
+  // Replies grouped under their parent; replies to a missing comment are shown at the top level
+  const repliesByParent = useMemo(() => {
+    const ids = new Set(comments.map(c => c.id));
+    const groups = new Map<number | null, TaskComment[]>();
+    [...comments]
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .forEach(comment => {
+        const parent = comment.parent_id && ids.has(comment.parent_id) ? comment.parent_id : null;
+        groups.set(parent, [...(groups.get(parent) ?? []), comment]);
+      });
+    return groups;
+  }, [comments]);
+
+  const handlePost = async () => {
+    const body = draft.trim();
+    if (!body) return;
+    setPosting(true);
+    try {
+      await apiService.addTaskComment(task.id, { body, parent_id: replyTo?.id });
+      setDraft('');
+      setReplyTo(null);
+    } catch (error) {
+      notifyError(error, 'Failed to post comment');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const renderThread = (parentId: number | null, depth: number): React.ReactNode =>
+    (repliesByParent.get(parentId) ?? []).map(comment => (
+      <Box key={comment.id} ml={depth > 0 && depth <= MAX_THREAD_DEPTH ? 2 : 0} mt={1.5}>
+        <Box pl={depth > 0 ? 1.5 : 0} borderLeft={depth > 0 ? 2 : 0} borderColor="divider">
+          <Box display="flex" alignItems="baseline" gap={1}>
+            <Typography variant="subtitle2">{comment.author}</Typography>
+            <Typography variant="caption" color="text.secondary">
+              {formatTimestamp(comment.created_at)}
+            </Typography>
+          </Box>
+          <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+            {comment.body}
+          </Typography>
+          {canComment && (
+            <Button size="small" startIcon={<Reply />} onClick={() => setReplyTo(comment)} sx={{ mt: 0.5, ml: -0.5 }}>
+              Reply
+            </Button>
+          )}
+        </Box>
+        {renderThread(comment.id, depth + 1)}
+      </Box>
+    ));
+
+  const renderQueryState = (query: { loading: boolean; error?: unknown }, fallback: string) => {
+    if (query.loading) {
+      return (
+        <Box display="flex" justifyContent="center" py={4}>
+          <CircularProgress size={28} />
+        </Box>
+      );
+    }
+    return query.error ? <Alert severity="error">{getErrorMessage(query.error, fallback)}</Alert> : null;
+  };
+
+  return (
+    <Box display="flex" flexDirection="column" height="100%">
+      <Box p={2} display="flex" alignItems="flex-start" gap={1}>
+        <Typography variant="h6" component="h2" flex={1}>
+          {task.title}
+        </Typography>
+        <IconButton onClick={onClose} title="Close" size="small">
+          <Close />
+        </IconButton>
+      </Box>
+
+      <Box px={2} pb={2}>
+        <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap mb={1}>
+          <Chip
+            label={STATUS_LABELS[task.status]}
+            color={getStatusColor(task.status)}
+            icon={getStatusIcon(task.status)}
+            size="small"
+          />
+          <Box display="flex" alignItems="center" gap={0.5}>
+            <Person fontSize="small" color="action" />
+            <Typography variant="body2" color="text.secondary">
+              {task.employee?.name ?? 'Unassigned'}
+            </Typography>
+          </Box>
+          {task.due_date && (
+            <Box display="flex" alignItems="center" gap={0.5}>
+              <Schedule fontSize="small" color={isOverdue(task.due_date) ? 'error' : 'action'} />
+              <Typography variant="body2" color={isOverdue(task.due_date) ? 'error.main' : 'text.secondary'}>
+                {formatTimestamp(task.due_date)}
+              </Typography>
+            </Box>
+          )}
+        </Stack>
+        {task.description && (
+          <Typography variant="body2" color="text.secondary" sx={{ whiteSpace: 'pre-wrap' }}>
+            {task.description}
+          </Typography>
+        )}
+      </Box>
+
+      <Divider />
+      <Tabs value={tab} onChange={(_, value) => setTab(value)} variant="fullWidth">
+        <Tab value="comments" label={`Comments${comments.length ? ` (${comments.length})` : ''}`} />
+        <Tab value="activity" label="Activity" />
+      </Tabs>
+      <Divider />
+
+      <Box flex={1} overflow="auto" px={2} pb={2}>
+        {tab === 'comments' ? (
+          renderQueryState(commentQuery, 'Failed to load comments') ?? (
+            comments.length === 0 ? (
+              <Typography variant="body2" color="text.secondary" mt={2}>
+                No comments yet.
+              </Typography>
+            ) : renderThread(null, 0)
+          )
+        ) : (
+          renderQueryState(activityQuery, 'Failed to load activity') ?? (
+            activity.length === 0 ? (
+              <Typography variant="body2" color="text.secondary" mt={2}>
+                No activity recorded yet.
+              </Typography>
+            ) : activity.map(entry => (
+              <Box key={entry.id} mt={1.5}>
+                <Typography variant="body2">
+                  <strong>{entry.actor}</strong> {describeActivity(entry, employees)}
+                </Typography>
+                {entry.note && (
+                  <Typography variant="body2" color="text.secondary" fontStyle="italic" sx={{ whiteSpace: 'pre-wrap' }}>
+                    “{entry.note}”
+                  </Typography>
+                )}
+                <Typography variant="caption" color="text.secondary">
+                  {formatTimestamp(entry.created_at)}
+                </Typography>
+              </Box>
+            ))
+          )
+        )}
+      </Box>
+
+      {tab === 'comments' && canComment && (
+        <>
+          <Divider />
+          <Box p={2}>
+            {replyTo && (
+              <Chip
+                label={`Replying to ${replyTo.author}`}
+                onDelete={() => setReplyTo(null)}
+                size="small"
+                sx={{ mb: 1 }}
+              />
+            )}
+            <TextField
+              fullWidth
+              multiline
+              minRows={2}
+              maxRows={6}
+              placeholder="Write a comment…"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) handlePost();
+              }}
+              disabled={posting}
+              slotProps={{ htmlInput: { maxLength: COMMENT_MAX_LENGTH } }}
+            />
+            <Box display="flex" justifyContent="space-between" alignItems="center" mt={1}>
+              <Typography variant="caption" color="text.secondary">
+                Ctrl+Enter to post
+              </Typography>
+              <Button variant="contained" onClick={handlePost} disabled={posting || !draft.trim()}>
+                {posting ? <CircularProgress size={24} /> : 'Post'}
+              </Button>
+            </Box>
+          </Box>
+        </>
+      )}
+    </Box>
+  );
+};
+
+interface TaskDetailDrawerProps {
+  // Task to show; null closes the drawer
+  task: Task | null;
+  employees: Employee[];
+  onClose: () => void;
+}
+
+// Side panel with a task's comment thread and change history
+export const TaskDetailDrawer: React.FC<TaskDetailDrawerProps> = ({ task, employees, onClose }) => (
+  <Drawer
+    anchor="right"
+    open={!!task}
+    onClose={onClose}
+    slotProps={{ paper: { sx: { width: { xs: '100%', sm: 440 } } } }}
+  >
+    {task && <TaskDetails key={task.id} task={task} employees={employees} onClose={onClose} />}
+  </Drawer>
+);
@@ -0,0 +1,203 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  FormControl,
+  InputAdornment,
+  InputLabel,
+  ListItemText,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Search } from '@mui/icons-material';
+import type { Task, Employee, TaskLabel } from '../services/api';
+import { TASK_STATUSES, STATUS_LABELS } from '../utils/taskUtils';
+import { QUICK_FILTER_LABELS, EMPTY_TASK_FILTERS } from '../utils/taskFilters';
+import type { TaskFilters, QuickFilter } from '../utils/taskFilters';
+
+interface TaskFilterBarProps {
+  filters: TaskFilters;
+  onChange: (filters: TaskFilters) => void;
+  employees: Employee[];
+  // Labels offered as a facet, usually those found on the loaded tasks
+  labels: TaskLabel[];
+  shownCount: number;
+  totalCount: number;
+}
+
+export const TaskFilterBar: React.FC<TaskFilterBarProps> = ({ filters, onChange, employees, labels, shownCount, totalCount }) => {
+  const departments = Array.from(new Set(employees.map(e => e.department))).sort();
+  const employeeName = (id: number) => employees.find(e => e.id === id)?.name ?? `#${id}`;
+
+  const update = (changes: Partial<TaskFilters>) => onChange({ ...filters, ...changes });
+
+  const toggleQuickFilter = (filter: QuickFilter) => {
+    update({
+      quick: filters.quick.includes(filter)
+        ? filters.quick.filter(f => f !== filter)
+        : [...filters.quick, filter],
+    });
+  };
+
+  const activeChips: { key: string; label: string; onDelete: () => void }[] = [
+    ...(filters.search.trim()
+      ? [{ key: 'search', label: `"${filters.search.trim()}"`, onDelete: () => update({ search: '' }) }]
+      : []),
+    ...filters.statuses.map(status => ({
+      key: `status-${status}`,
+      label: `Status: ${STATUS_LABELS[status]}`,
+      onDelete: () => update({ statuses: filters.statuses.filter(s => s !== status) }),
+    })),
+    ...filters.employeeIds.map(id => ({
+      key: `employee-${id}`,
+      label: `Assignee: ${employeeName(id)}`,
+      onDelete: () => update({ employeeIds: filters.employeeIds.filter(e => e !== id) }),
+    })),
+    ...filters.departments.map(department => ({
+      key: `department-${department}`,
+      label: `Department: ${department}`,
+      onDelete: () => update({ departments: filters.departments.filter(d => d !== department) }),
+    })),
+    ...filters.labels.map(name => ({
+      key: `label-${name}`,
+      label: `Label: ${name}`,
+      onDelete: () => update({ labels: filters.labels.filter(l => l !== name) }),
+    })),
+    ...filters.quick.map(filter => ({
+      key: `quick-${filter}`,
+      label: QUICK_FILTER_LABELS[filter],
+      onDelete: () => toggleQuickFilter(filter),
+    })),
+  ];
+
+  return (
+    <Box mb={3}>
+      <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} mb={2}>
+        <TextField
+          size="small"
+          placeholder="Search title or description"
+          value={filters.search}
+          onChange={(e) => update({ search: e.target.value })}
+          sx={{ flex: 1, minWidth: 220 }}
+          slotProps={{
+            input: {
+              startAdornment: (
+                <InputAdornment position="start">
+                  <Search />
+                </InputAdornment>
+              ),
+            },
+          }}
+        />
+
+        <FormControl size="small" sx={{ minWidth: 150 }}>
+          <InputLabel>Status</InputLabel>
+          <Select<Task['status'][]>
+            multiple
+            value={filters.statuses}
+            onChange={(e) => update({ statuses: e.target.value as Task['status'][] })}
+            label="Status"
+            renderValue={(selected) => selected.map(s => STATUS_LABELS[s]).join(', ')}
+          >
+            {TASK_STATUSES.map((status) => (
+              <MenuItem key={status} value={status}>
+                <Checkbox checked={filters.statuses.includes(status)} size="small" />
+                <ListItemText primary={STATUS_LABELS[status]} />
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        <FormControl size="small" sx={{ minWidth: 170 }}>
+          <InputLabel>Assignee</InputLabel>
+          <Select<number[]>
+            multiple
+            value={filters.employeeIds}
+            onChange={(e) => update({ employeeIds: e.target.value as number[] })}
+            label="Assignee"
+            renderValue={(selected) => selected.map(employeeName).join(', ')}
+          >
+            {employees.map((employee) => (
+              <MenuItem key={employee.id} value={employee.id}>
+                <Checkbox checked={filters.employeeIds.includes(employee.id)} size="small" />
+                <ListItemText primary={employee.name} />
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        <FormControl size="small" sx={{ minWidth: 170 }}>
+          <InputLabel>Department</InputLabel>
+          <Select<string[]>
+            multiple
+            value={filters.departments}
+            onChange={(e) => update({ departments: e.target.value as string[] })}
+            label="Department"
+            renderValue={(selected) => selected.join(', ')}
+          >
+            {departments.map((department) => (
+              <MenuItem key={department} value={department}>
+                <Checkbox checked={filters.departments.includes(department)} size="small" />
+                <ListItemText primary={department} />
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        <FormControl size="small" sx={{ minWidth: 150 }}>
+          <InputLabel>Labels</InputLabel>
+          <Select<string[]>
+            multiple
+            value={filters.labels}
+            onChange={(e) => update({ labels: e.target.value as string[] })}
+            label="Labels"
+            renderValue={(selected) => selected.join(', ')}
+          >
+            {labels.length === 0 && (
+              <MenuItem disabled>
+                <em>No labels on these tasks</em>
+              </MenuItem>
+            )}
+            {labels.map((label) => (
+              <MenuItem key={label.name} value={label.name}>
+                <Checkbox checked={filters.labels.includes(label.name)} size="small" sx={{ color: label.color }} />
+                <ListItemText primary={label.name} />
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Stack>
+
+      <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap>
+        {(Object.keys(QUICK_FILTER_LABELS) as QuickFilter[]).map((filter) => (
+          <Chip
+            key={filter}
+            label={QUICK_FILTER_LABELS[filter]}
+            color={filters.quick.includes(filter) ? 'primary' : 'default'}
+            variant={filters.quick.includes(filter) ? 'filled' : 'outlined'}
+            onClick={() => toggleQuickFilter(filter)}
+          />
+        ))}
+        <Typography variant="body2" color="text.secondary" sx={{ ml: 'auto' }}>
+          Showing {shownCount} of {totalCount} tasks
+        </Typography>
+      </Stack>
+
+      {activeChips.length > 0 && (
+        <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap mt={2}>
+          {activeChips.map((chip) => (
+            <Chip key={chip.key} label={chip.label} size="small" onDelete={chip.onDelete} />
+          ))}
+          <Button size="small" onClick={() => onChange(EMPTY_TASK_FILTERS)}>
+            Clear all
+          </Button>
+        </Stack>
+      )}
+    </Box>
+  );
+};
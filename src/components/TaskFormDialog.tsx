@@ -0,0 +1,569 @@
+import React, { useEffect, useLayoutEffect, useMemo, useState } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  CircularProgress,
+  Alert,
+  FormControl,
+  FormHelperText,
+  InputLabel,
+  Select,
+  MenuItem,
+  FormControlLabel,
+  Checkbox,
+  Autocomplete
+} from '@mui/material';
+import { DateTimePicker } from '@mui/x-date-pickers/DateTimePicker';
+import { useForm, useWatch, Controller } from 'react-hook-form';
+import type { Resolver } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import dayjs from 'dayjs';
+import type { Dayjs } from 'dayjs';
+import { apiService, ApiError, createTaskSchema, updateTaskSchema, TASK_TITLE_MAX_LENGTH } from '../services/api';
+import type {
+  Task,
+  Employee,
+  CreateTask,
+  ChecklistItem,
+  TaskLabel,
+  CustomFieldDefinition,
+  TaskValidationContext,
+  TaskRecurrence,
+  SeriesEditScope
+} from '../services/api';
+import { useNotification } from '../hooks/useNotification';
+import { useRemoteChange } from '../hooks/useRemoteChange';
+import { useCustomFields } from '../hooks/useCustomFields';
+import { useTaskDependencies } from '../hooks/useTaskDependencies';
+import { useDepartments } from '../hooks/useDepartments';
+import {
+  TASK_PRIORITIES,
+  PRIORITY_LABELS,
+  getChecklistProgress,
+  formatCustomFieldValue
+} from '../utils/taskUtils';
+import { describeRecurrence, isRecurring } from '../utils/recurrence';
+import { getEmployeeWorkloads, getOverallocationWarning } from '../utils/workload';
+import { getStatusChangeBlockedMessage } from '../utils/dependencies';
+import { ChecklistEditor } from './ChecklistEditor';
+import { RecurrenceEditor } from './RecurrenceEditor';
+import { SeriesScopeDialog } from './SeriesScopeDialog';
+import { TaskLabelsField } from './TaskLabelsField';
+import { CustomFieldInputs } from './CustomFieldInputs';
+import { DependencyPicker } from './DependencyPicker';
+import { AssigneeField } from './AssigneeField';
+import { MergeConflictDialog } from './MergeConflictDialog';
+import type { MergeField } from './MergeConflictDialog';
+
+interface TaskFormDialogProps {
+  open: boolean;
+  // Task being edited; null opens the dialog in create mode
+  task: Task | null;
+  employees: Employee[];
+  // Due date filled in when creating, e.g. from a calendar slot
+  initialDueDate?: Dayjs | null;
+  // Labels used on other tasks, offered while typing
+  labelSuggestions?: TaskLabel[];
+  onClose: () => void;
+}
+
+const toFormValues = (task: Task | null, initialDueDate: Dayjs | null): CreateTask => ({
+  title: task?.title ?? '',
+  description: task?.description ?? '',
+  employee_id: task?.employee_id,
+  department: task?.department ?? '',
+  due_date: task ? task.due_date : initialDueDate?.toISOString(),
+  checklist: [...(task?.checklist ?? [])].sort((a, b) => a.order - b.order),
+  // Existing tasks without a priority keep none until one is picked
+  priority: task ? task.priority : 'medium',
+  labels: task?.labels ?? [],
+  custom_fields: { ...task?.custom_fields },
+  recurrence: task?.recurrence ?? null,
+  blocked_by: task?.blocked_by ?? [],
+  blocks: task?.blocks ?? [],
+});
+
+const formatChecklist = (value: unknown) => {
+  const items = (value as ChecklistItem[] | undefined) ?? [];
+  return items.length === 0 ? '—' : items.map(item => `${item.done ? '☑' : '☐'} ${item.text}`).join('\n');
+};
+
+const formatLabels = (value: unknown) => {
+  const labels = (value as TaskLabel[] | undefined) ?? [];
+  return labels.length === 0 ? '—' : labels.map(label => label.name).join(', ');
+};
+
+const formatRecurrence = (value: unknown) =>
+  value ? describeRecurrence(value as TaskRecurrence) : 'Does not repeat';
+
+const formatRelatedTasks = (tasksById: Map<number, Task>) => (value: unknown) => {
+  const ids = (value as number[] | undefined) ?? [];
+  return ids.length === 0 ? '—' : ids.map(id => tasksById.get(id)?.title ?? `#${id}`).join('\n');
+};
+
+const formatCustomFields = (fields: CustomFieldDefinition[]) => (value: unknown) => {
+  const values = (value as CreateTask['custom_fields']) ?? {};
+  return fields.map(field => `${field.label}: ${formatCustomFieldValue(field, values[field.key])}`).join('\n');
+};
+
+// Create/edit dialog for a single task; must be rendered inside a LocalizationProvider
+export const TaskFormDialog: React.FC<TaskFormDialogProps> = ({
+  open,
+  task,
+  employees,
+  initialDueDate = null,
+  labelSuggestions,
+  onClose,
+}) => {
+  const { notifySuccess, notifyError } = useNotification();
+  const { fields: customFields } = useCustomFields();
+  // Edits use the update schema, which allows due dates in the past
+  const resolver = useMemo(
+    () => (task ? yupResolver(updateTaskSchema) : yupResolver(createTaskSchema)) as Resolver<CreateTask>,
+    [task]
+  );
+  // Loaded while the dialog is open: relations are checked for loops and workloads counted against every task
+  const {
+    tasks: allTasks,
+    loading: tasksLoading,
+    index: dependencyIndex,
+    tasksById,
+    getBlockers,
+  } = useTaskDependencies({ enabled: open });
+  const { departments: departmentRecords } = useDepartments();
+  // Names typed on employees stand in until departments are set up
+  const departments = useMemo(
+    () => departmentRecords.length > 0
+      ? departmentRecords.map(department => department.name).sort()
+      : [...new Set(employees.map(employee => employee.department).filter(Boolean))].sort(),
+    [departmentRecords, employees]
+  );
+  const context = useMemo<TaskValidationContext>(() => ({
+    customFields,
+    dependencies: { index: dependencyIndex, tasksById, taskId: task?.id },
+  }), [customFields, dependencyIndex, tasksById, task]);
+  const {
+    control,
+    handleSubmit,
+    reset,
+    setError,
+    formState: { isDirty, isSubmitting },
+  } = useForm<CreateTask, TaskValidationContext>({ resolver, context, defaultValues: toFormValues(task, initialDueDate) });
+
+  // Changes other users make after this point are reported above the form
+  const [loadedAt, setLoadedAt] = useState(0);
+  // Version the form was loaded from, sent so the server can refuse to overwrite newer changes
+  const [baseVersion, setBaseVersion] = useState<string | undefined>(undefined);
+  const [conflict, setConflict] = useState<{ mine: CreateTask; theirs: Task } | null>(null);
+  const [mergeSaving, setMergeSaving] = useState(false);
+  // Recurring tasks ask which occurrences an edit applies to; the answer is kept for merge retries
+  const [scopePrompt, setScopePrompt] = useState<{ scheduleChanged: boolean } | null>(null);
+  const [seriesScope, setSeriesScope] = useState<SeriesEditScope | null>(null);
+  // Offered once every checklist item of an open task is ticked
+  const [completeWhenDone, setCompleteWhenDone] = useState(true);
+  const checklist = getChecklistProgress(useWatch({ control, name: 'checklist' }));
+  const checklistDone = !!task && task.status !== 'completed' && checklist.total > 0 && checklist.open === 0;
+  const completionBlockedMessage = checklistDone && task
+    ? getStatusChangeBlockedMessage(task, 'completed', getBlockers(task))
+    : null;
+  const offerCompletion = checklistDone && !completionBlockedMessage;
+  const { change } = useRemoteChange('tasks', task?.id);
+  const remoteChange = open && change && change.receivedAt > loadedAt ? change.event : undefined;
+
+  useEffect(() => {
+    if (open) reset(toFormValues(task, initialDueDate));
+  }, [open, task, initialDueDate, reset]);
+
+  // Before paint, so a change from before the dialog opened never flashes the warning
+  useLayoutEffect(() => {
+    if (!open) return;
+    setLoadedAt(Date.now());
+    setBaseVersion(task?.updated_at);
+    setCompleteWhenDone(true);
+    setSeriesScope(null);
+  }, [open, task]);
+
+  const handleLoadLatest = () => {
+    const latest = remoteChange?.record as unknown as Task | undefined;
+    if (latest) {
+      reset(toFormValues(latest, null));
+      setBaseVersion(latest.updated_at);
+    }
+    setLoadedAt(Date.now());
+  };
+
+  const mergeFields = useMemo<MergeField<CreateTask>[]>(() => [
+    { name: 'title', label: 'Title' },
+    { name: 'description', label: 'Description' },
+    {
+      name: 'employee_id',
+      label: 'Assignee',
+      format: (value) => value === undefined || value === null
+        ? 'Unassigned'
+        : employees.find(e => e.id === value)?.name ?? `#${value}`,
+    },
+    { name: 'department', label: 'Department', format: (value) => (value as string | undefined) || '—' },
+    {
+      name: 'due_date',
+      label: 'Due Date',
+      format: (value) => typeof value === 'string' && value ? dayjs(value).format('MMM DD, YYYY HH:mm') : '—',
+    },
+    { name: 'recurrence', label: 'Repeat', format: formatRecurrence },
+    {
+      name: 'priority',
+      label: 'Priority',
+      format: (value) => PRIORITY_LABELS[value as keyof typeof PRIORITY_LABELS] ?? '—',
+    },
+    { name: 'labels', label: 'Labels', format: formatLabels },
+    { name: 'checklist', label: 'Checklist', format: formatChecklist },
+    { name: 'blocked_by', label: 'Blocked By', format: formatRelatedTasks(tasksById) },
+    { name: 'blocks', label: 'Blocks', format: formatRelatedTasks(tasksById) },
+    ...(customFields.length > 0
+      ? [{ name: 'custom_fields' as const, label: 'Custom Fields', format: formatCustomFields(customFields) }]
+      : []),
+  ], [employees, customFields, tasksById]);
+
+  const handleClose = () => {
+    if (isSubmitting) return;
+    if (isDirty && !window.confirm('Discard unsaved changes to this task?')) return;
+    onClose();
+  };
+
+  const save = async (formValues: CreateTask, expectedUpdatedAt?: string, scope = seriesScope) => {
+    // Item order follows the rows as arranged in the form
+    const values = { ...formValues, checklist: formValues.checklist?.map((item, order) => ({ ...item, order })) };
+    if (task) {
+      const allDone = getChecklistProgress(values.checklist).open === 0;
+      const complete = offerCompletion && completeWhenDone && allDone;
+      const changes = complete ? { ...values, status: 'completed' as const } : values;
+      if (scope) {
+        await apiService.updateTaskSeries(task, changes, scope, { expectedUpdatedAt });
+      } else {
+        await apiService.updateTask(task.id, changes, { expectedUpdatedAt });
+      }
+      notifySuccess('Task updated');
+    } else {
+      await apiService.createTask(values);
+      notifySuccess('Task created');
+    }
+    onClose();
+  };
+
+  const handleSaveError = async (error: unknown, values: CreateTask) => {
+    const apiError = ApiError.from(error);
+    if (apiError.kind === 'conflict' && task) {
+      try {
+        setConflict({ mine: values, theirs: await apiService.getTask(task.id) });
+      } catch (fetchError) {
+        notifyError(fetchError, 'Failed to load the current version of this task');
+      }
+      return;
+    }
+    if (apiError.kind === 'validation') {
+      Object.entries(apiError.fieldErrors).forEach(([field, message]) =>
+        setError(field as keyof CreateTask, { message }));
+    }
+    notifyError(apiError, 'Failed to save task');
+  };
+
+  const submit = async (values: CreateTask, scope?: SeriesEditScope) => {
+    try {
+      await save(values, baseVersion, scope);
+    } catch (error) {
+      await handleSaveError(error, values);
+    }
+  };
+
+  const onSubmit = async (values: CreateTask) => {
+    // Only a new assignee is warned about; the current one already agreed to the work
+    const assignee = values.employee_id !== undefined && values.employee_id !== task?.employee_id
+      ? getEmployeeWorkloads(employees, allTasks, { taskId: task?.id, dueDate: values.due_date }).get(values.employee_id)
+      : undefined;
+    const allocationWarning = assignee ? getOverallocationWarning(assignee) : null;
+    if (allocationWarning && !window.confirm(`${allocationWarning} Assign the task anyway?`)) return;
+    if (task && isRecurring(task)) {
+      setScopePrompt({ scheduleChanged: JSON.stringify(values.recurrence ?? null) !== JSON.stringify(task.recurrence ?? null) });
+      return;
+    }
+    await submit(values);
+  };
+
+  const handleScopeConfirm = (scope: SeriesEditScope) => {
+    setScopePrompt(null);
+    setSeriesScope(scope);
+    handleSubmit(values => submit(values, scope))();
+  };
+
+  const handleMergeSave = async (values: CreateTask) => {
+    if (!conflict) return;
+    setMergeSaving(true);
+    try {
+      await save(values, conflict.theirs.updated_at);
+      setConflict(null);
+    } catch (error) {
+      // Show the merged values in the form so field errors line up with them
+      setConflict(null);
+      reset(values, { keepDefaultValues: true });
+      await handleSaveError(error, values);
+    } finally {
+      setMergeSaving(false);
+    }
+  };
+
+  const handleTakeTheirs = () => {
+    setConflict(null);
+    notifySuccess('Kept the current version of the task');
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        {task ? 'Edit Task' : 'Add New Task'}
+      </DialogTitle>
+
+      <DialogContent>
+        {remoteChange && (
+          <Alert
+            severity="warning"
+            sx={{ mb: 1 }}
+            action={remoteChange.record && (
+              <Button color="inherit" size="small" onClick={handleLoadLatest} disabled={isSubmitting}>
+                Load latest
+              </Button>
+            )}
+          >
+            {remoteChange.action === 'deleted'
+              ? `This task was deleted by ${remoteChange.actor ?? 'another user'}.`
+              : `This task was modified by ${remoteChange.actor ?? 'another user'}. Saving will check for conflicting changes and let you merge them.`}
+          </Alert>
+        )}
+
+        <Controller
+          name="title"
+          control={control}
+          render={({ field, fieldState }) => (
+            <TextField
+              {...field}
+              autoFocus
+              margin="dense"
+              label="Task Title"
+              fullWidth
+              variant="outlined"
+              error={!!fieldState.error}
+              helperText={fieldState.error?.message}
+              disabled={isSubmitting}
+              slotProps={{ htmlInput: { maxLength: TASK_TITLE_MAX_LENGTH } }}
+            />
+          )}
+        />
+
+        <Controller
+          name="description"
+          control={control}
+          render={({ field }) => (
+            <TextField
+              {...field}
+              value={field.value ?? ''}
+              margin="dense"
+              label="Description"
+              fullWidth
+              multiline
+              rows={3}
+              variant="outlined"
+              disabled={isSubmitting}
+            />
+          )}
+        />
+
+        <Controller
+          name="department"
+          control={control}
+          render={({ field, fieldState }) => (
+            <Autocomplete
+              freeSolo
+              options={departments}
+              value={field.value ?? ''}
+              onInputChange={(_, value) => field.onChange(value)}
+              disabled={isSubmitting}
+              renderInput={(params) => (
+                <TextField
+                  {...params}
+                  label="Department"
+                  margin="dense"
+                  variant="outlined"
+                  onBlur={field.onBlur}
+                  error={!!fieldState.error}
+                  helperText={fieldState.error?.message}
+                />
+              )}
+            />
+          )}
+        />
+
+        <AssigneeField
+          control={control}
+          employees={employees}
+          tasks={allTasks}
+          taskId={task?.id}
+          disabled={isSubmitting}
+        />
+
+        <Controller
+          name="due_date"
+          control={control}
+          render={({ field, fieldState }) => (
+            <DateTimePicker
+              label="Due Date"
+              value={field.value ? dayjs(field.value) : null}
+              // Invalid input is kept as text so the schema can report it
+              onChange={(date) => field.onChange(date ? (date.isValid() ? date.toISOString() : date.format()) : undefined)}
+              disablePast={!task}
+              disabled={isSubmitting}
+              slotProps={{
+                textField: {
+                  fullWidth: true,
+                  margin: 'dense',
+                  variant: 'outlined',
+                  onBlur: field.onBlur,
+                  error: !!fieldState.error,
+                  helperText: fieldState.error?.message,
+                },
+              }}
+            />
+          )}
+        />
+
+        <RecurrenceEditor control={control} disabled={isSubmitting} />
+
+        <Controller
+          name="priority"
+          control={control}
+          render={({ field, fieldState }) => (
+            <FormControl fullWidth margin="dense" variant="outlined" error={!!fieldState.error}>
+              <InputLabel>Priority</InputLabel>
+              <Select
+                value={field.value ?? ''}
+                onChange={(e) => field.onChange(e.target.value)}
+                onBlur={field.onBlur}
+                label="Priority"
+                disabled={isSubmitting}
+              >
+                <MenuItem value="" disabled>
+                  <em>Not set</em>
+                </MenuItem>
+                {TASK_PRIORITIES.map((priority) => (
+                  <MenuItem key={priority} value={priority}>
+                    {PRIORITY_LABELS[priority]}
+                  </MenuItem>
+                ))}
+              </Select>
+              {fieldState.error && <FormHelperText>{fieldState.error.message}</FormHelperText>}
+            </FormControl>
+          )}
+        />
+
+        <Controller
+          name="labels"
+          control={control}
+          render={({ field, fieldState }) => (
+            <TaskLabelsField
+              value={field.value ?? []}
+              onChange={field.onChange}
+              suggestions={labelSuggestions}
+              error={fieldState.error?.message}
+              disabled={isSubmitting}
+            />
+          )}
+        />
+
+        <Controller
+          name="blocked_by"
+          control={control}
+          render={({ field, fieldState }) => (
+            <DependencyPicker
+              label="Blocked by"
+              value={field.value ?? []}
+              onChange={field.onChange}
+              tasks={allTasks}
+              tasksById={tasksById}
+              taskId={task?.id}
+              error={fieldState.error?.message}
+              disabled={isSubmitting}
+            />
+          )}
+        />
+
+        <Controller
+          name="blocks"
+          control={control}
+          render={({ field, fieldState }) => (
+            <DependencyPicker
+              label="Blocks"
+              value={field.value ?? []}
+              onChange={field.onChange}
+              tasks={allTasks}
+              tasksById={tasksById}
+              taskId={task?.id}
+              error={fieldState.error?.message}
+              disabled={isSubmitting}
+            />
+          )}
+        />
+
+        <CustomFieldInputs control={control} fields={customFields} disabled={isSubmitting} />
+
+        <ChecklistEditor control={control} disabled={isSubmitting} />
+
+        {offerCompletion && (
+          <FormControlLabel
+            control={<Checkbox checked={completeWhenDone} onChange={(e) => setCompleteWhenDone(e.target.checked)} />}
+            label="All items are done: mark the task as completed"
+            sx={{ mt: 1 }}
+          />
+        )}
+        {completionBlockedMessage && (
+          <FormHelperText sx={{ mt: 1 }}>
+            All items are done, but the task cannot start yet. {completionBlockedMessage}
+          </FormHelperText>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={handleClose} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button onClick={handleSubmit(onSubmit)} variant="contained" disabled={isSubmitting || tasksLoading}>
+          {isSubmitting ? <CircularProgress size={24} /> : task ? 'Update' : 'Create'}
+        </Button>
+      </DialogActions>
+
+      {scopePrompt && (
+        <SeriesScopeDialog
+          open
+          scheduleChanged={scopePrompt.scheduleChanged}
+          onConfirm={handleScopeConfirm}
+          onCancel={() => setScopePrompt(null)}
+        />
+      )}
+
+      {conflict && (
+        <MergeConflictDialog
+          open
+          recordLabel="task"
+          fields={mergeFields}
+          mine={conflict.mine}
+          theirs={toFormValues(conflict.theirs, null)}
+          saving={mergeSaving}
+          onSave={handleMergeSave}
+          onTakeTheirs={handleTakeTheirs}
+          onCancel={() => setConflict(null)}
+        />
+      )}
+    </Dialog>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Autocomplete, Box, Chip, Menu, MenuItem, TextField } from '@mui/material';
+import type { ChipProps } from '@mui/material';
+import { Circle } from '@mui/icons-material';
+import { LABEL_MAX_LENGTH } from '../services/api';
+import type { TaskLabel } from '../services/api';
+import { LABEL_COLORS } from '../utils/taskUtils';
+
+interface TaskLabelsFieldProps {
+  value: TaskLabel[];
+  onChange: (labels: TaskLabel[]) => void;
+  // Labels already used on other tasks, offered first so names and colors stay consistent
+  suggestions?: TaskLabel[];
+  error?: string;
+  disabled?: boolean;
+}
+
+const NO_LABELS: TaskLabel[] = [];
+
+// Chip with the label's color as background and a readable text color on top
+export const LabelChip: React.FC<Omit<ChipProps, 'label'> & { label: TaskLabel }> = ({ label, sx, ...props }) => (
+  <Chip
+    {...props}
+    label={label.name}
+    size="small"
+    sx={[
+      { bgcolor: label.color, color: theme => theme.palette.getContrastText(label.color) },
+      ...(Array.isArray(sx) ? sx : [sx]),
+    ]}
+  />
+);
+
+// Free-form labels: pick a known label or type a new one; click a chip to change its color
+export const TaskLabelsField: React.FC<TaskLabelsFieldProps> = ({
+  value,
+  onChange,
+  suggestions = NO_LABELS,
+  error,
+  disabled = false,
+}) => {
+  const [colorMenu, setColorMenu] = useState<{ anchor: HTMLElement; index: number } | null>(null);
+
+  const handleChange = (selected: (string | TaskLabel)[]) => {
+    const labels: TaskLabel[] = [];
+    selected.forEach(item => {
+      const name = (typeof item === 'string' ? item : item.name).trim();
+      if (!name || labels.some(label => label.name.toLowerCase() === name.toLowerCase())) return;
+      const known = typeof item === 'string'
+        ? suggestions.find(label => label.name.toLowerCase() === name.toLowerCase())
+        : item;
+      labels.push(known ?? { name, color: LABEL_COLORS[(suggestions.length + labels.length) % LABEL_COLORS.length] });
+    });
+    onChange(labels);
+  };
+
+  const handleColor = (color: string) => {
+    if (colorMenu) onChange(value.map((label, i) => i === colorMenu.index ? { ...label, color } : label));
+    setColorMenu(null);
+  };
+
+  return (
+    <>
+      <Autocomplete<TaskLabel, true, false, true>
+        multiple
+        freeSolo
+        options={suggestions}
+        value={value}
+        onChange={(_, selected) => handleChange(selected)}
+        getOptionLabel={(option) => typeof option === 'string' ? option : option.name}
+        isOptionEqualToValue={(option, selected) => option.name.toLowerCase() === selected.name.toLowerCase()}
+        disabled={disabled}
+        renderOption={({ key, ...props }, option) => (
+          <Box component="li" key={key} {...props}>
+            <Circle fontSize="small" sx={{ color: option.color, mr: 1 }} />
+            {option.name}
+          </Box>
+        )}
+        // Typed text only becomes a label in handleChange, so every value is a TaskLabel here
+        renderValue={(selected, getItemProps) => (selected as TaskLabel[]).map((label, index) => {
+          const { key, ...itemProps } = getItemProps({ index });
+          return (
+            <LabelChip
+              key={key}
+              {...itemProps}
+              label={label}
+              onClick={(e) => setColorMenu({ anchor: e.currentTarget, index })}
+              title="Change color"
+            />
+          );
+        })}
+        renderInput={(params) => (
+          <TextField
+            {...params}
+            margin="dense"
+            label="Labels"
+            placeholder={value.length === 0 ? 'Type a label and press Enter' : undefined}
+            error={!!error}
+            helperText={error}
+            slotProps={{ htmlInput: { ...params.inputProps, maxLength: LABEL_MAX_LENGTH } }}
+          />
+        )}
+      />
+
+      <Menu anchorEl={colorMenu?.anchor} open={!!colorMenu} onClose={() => setColorMenu(null)}>
+        <Box display="flex" gap={0.5} px={1}>
+          {LABEL_COLORS.map(color => (
+            <MenuItem key={color} onClick={() => handleColor(color)} sx={{ p: 0.5, minHeight: 0 }} aria-label={color}>
+              <Circle sx={{ color }} />
+            </MenuItem>
+          ))}
+        </Box>
+      </Menu>
+    </>
+  );
+};
@@ -0,0 +1,41 @@
+export interface AppConfig {
+  environment: string;
+  apiBaseUrl: string;
+  apiTimeout: number;
+  authTokenPath: string;
+  // Server for live change events; the API server when unset
+  realtimeUrl?: string;
+}
+
+export type ConfigSource = 'env' | 'runtime';
+
+// Build-time defaults from Vite environment variables (see .env.example)
+const envConfig: AppConfig = {
+  environment: import.meta.env.VITE_APP_ENV || import.meta.env.MODE,
+  apiBaseUrl: import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000',
+  apiTimeout: Number(import.meta.env.VITE_API_TIMEOUT) || 30000,
+  authTokenPath: import.meta.env.VITE_AUTH_TOKEN_PATH || '/token',
+  realtimeUrl: import.meta.env.VITE_REALTIME_URL || undefined,
+};
+
+let currentConfig: AppConfig = envConfig;
+let currentSource: ConfigSource = 'env';
+
+export const getConfig = (): AppConfig => currentConfig;
+
+export const getConfigSource = (): ConfigSource => currentSource;
+
+// A config.json served next to index.html overrides the build-time values without rebuilding
+export const loadRuntimeConfig = async (): Promise<AppConfig> => {
+  try {
+    const response = await fetch(`${import.meta.env.BASE_URL}config.json`, { cache: 'no-store' });
+    if (response.ok && response.headers.get('content-type')?.includes('application/json')) {
+      const overrides: Partial<AppConfig> = await response.json();
+      currentConfig = { ...envConfig, ...overrides };
+      currentSource = 'runtime';
+    }
+  } catch (error) {
+    console.warn('Runtime config.json not loaded, using build-time settings:', error);
+  }
+  return currentConfig;
+};
@@ -1,11 +1,30 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import type { ReactNode } from 'react';
-import { apiService } from '../services/api';
+import { apiService, getErrorMessage } from '../services/api';
+import { offlineSync } from '../services/offlineSync';
+import type { User } from '../services/api';
+import { DEFAULT_ROLE, roleHasPermission } from '../utils/permissions';
+import type { Permission } from '../utils/permissions';
+import { SessionTimeoutDialog } from '../components/SessionTimeoutDialog';
+import { ReLoginDialog } from '../components/ReLoginDialog';
+
+// How long before expiry the session warning appears
+const SESSION_WARNING_MS = 5 * 60 * 1000;
+// setTimeout fires immediately for delays above this, so longer sessions are not scheduled
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
 
 interface AuthContextType {
   isAuthenticated: boolean;
+  user: User | null;
+  hasPermission: (permission: Permission) => boolean;
+  // Set when the current user could not be loaded; role-gated actions stay hidden until `reloadUser` succeeds
+  userError: string | null;
+  reloadUser: () => Promise<void>;
   login: (username: string, password: string) => Promise<void>;
-  logout: () => void;
+  // Returns false when the user chose to stay signed in to keep unsent changes
+  logout: () => boolean;
+  extendSession: () => Promise<void>;
+  sessionExpiresAt: number | null;
   loading: boolean;
 }
 
@@ -25,39 +44,166 @@ interface AuthProviderProps {
 
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
+  const [user, setUser] = useState<User | null>(null);
+  const [userError, setUserError] = useState<string | null>(null);
+  const [sessionExpiresAt, setSessionExpiresAt] = useState<number | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
+  const [warningOpen, setWarningOpen] = useState(false);
+  const [reLoginOpen, setReLoginOpen] = useState(false);
+
+  // A failure is reported instead of passing for a viewer; the profile already loaded is kept if it is the same user's
+  const loadCurrentUser = useCallback(async () => {
+    try {
+      setUser(await apiService.getCurrentUser());
+      setUserError(null);
+    } catch (error) {
+      const username = apiService.getCurrentUsername();
+      setUser(prev => prev?.username === username ? prev : null);
+      setUserError(getErrorMessage(error, 'Unexpected server response'));
+    }
+  }, []);
+
+  // Unsent changes are only ever sent by the user who made them; another user's are kept or discarded, never sent
+  const resumeOfflineChanges = async () => {
+    const others = await apiService.resumeOfflineSync();
+    if (others > 0 && window.confirm(
+      `${others} unsent change${others === 1 ? ' was' : 's were'} made on this device by another user. `
+      + 'Discard them? Cancel keeps them until that user signs in again.'
+    )) {
+      await apiService.discardOtherUsersOfflineData();
+    }
+  };
 
   useEffect(() => {
     // Check if user is already authenticated on app start
-    const checkAuth = () => {
+    const checkAuth = async () => {
       const authenticated = apiService.isAuthenticated();
+      if (authenticated) {
+        await loadCurrentUser();
+      } else {
+        // An expired token is not a sign-out: unsent changes wait for the next sign-in
+        apiService.logout();
+      }
       setIsAuthenticated(authenticated);
+      setSessionExpiresAt(authenticated ? apiService.getSessionExpiry() : null);
       setLoading(false);
     };
 
     checkAuth();
-  }, []);
+  }, [loadCurrentUser]);
+
+  // Hold 401 responses while signed in so the re-login dialog can replay them
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    apiService.setUnauthorizedHandler(() => setReLoginOpen(true));
+    return () => apiService.setUnauthorizedHandler(null);
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    if (!isAuthenticated || sessionExpiresAt === null) return;
+
+    const warnIn = sessionExpiresAt - SESSION_WARNING_MS - Date.now();
+    const expireIn = sessionExpiresAt - Date.now();
+    if (expireIn > MAX_TIMER_DELAY_MS) return;
+
+    const warnTimer = setTimeout(() => setWarningOpen(true), Math.max(warnIn, 0));
+    const expireTimer = setTimeout(() => {
+      setWarningOpen(false);
+      setReLoginOpen(true);
+    }, Math.max(expireIn, 0));
+
+    return () => {
+      clearTimeout(warnTimer);
+      clearTimeout(expireTimer);
+    };
+  }, [isAuthenticated, sessionExpiresAt]);
 
   const login = async (username: string, password: string): Promise<void> => {
+    await apiService.login({ username, password });
+    await loadCurrentUser();
+    setSessionExpiresAt(apiService.getSessionExpiry());
+    setIsAuthenticated(true);
+    await resumeOfflineChanges();
+  };
+
+  // Signing out on purpose discards unsent offline changes, so ask first
+  const logout = useCallback(() => {
+    const { pending } = offlineSync.getState();
+    if (pending.length > 0
+      && !window.confirm(`${pending.length} change${pending.length === 1 ? ' has' : 's have'} not been sent yet and will be lost. Log out anyway?`)) {
+      return false;
+    }
+    apiService.rejectPendingRequests(new Error('Logged out'));
+    apiService.logout({ discardChanges: true });
+    setIsAuthenticated(false);
+    setUser(null);
+    setUserError(null);
+    setSessionExpiresAt(null);
+    setWarningOpen(false);
+    setReLoginOpen(false);
+    return true;
+  }, []);
+
+  const extendSession = async (): Promise<void> => {
     try {
-      await apiService.login({ username, password });
-      setIsAuthenticated(true);
+      await apiService.refreshToken();
+      setSessionExpiresAt(apiService.getSessionExpiry());
+      setWarningOpen(false);
     } catch (error) {
-      throw error;
+      console.error('Error extending session:', error);
+      setWarningOpen(false);
+      setReLoginOpen(true);
     }
   };
 
-  const logout = () => {
-    apiService.logout();
-    setIsAuthenticated(false);
+  const handleReLogin = async (username: string, password: string): Promise<void> => {
+    const previousUser = apiService.getCurrentUsername();
+    await apiService.login({ username, password });
+    await loadCurrentUser();
+    setSessionExpiresAt(apiService.getSessionExpiry());
+    setReLoginOpen(false);
+    // Requests held from the expired session are only sent again for the same user
+    if (apiService.getCurrentUsername() === previousUser) {
+      apiService.retryPendingRequests();
+    } else {
+      apiService.rejectPendingRequests(new Error('Signed in as a different user'));
+    }
+    await resumeOfflineChanges();
   };
 
+  const hasPermission = (permission: Permission) =>
+    roleHasPermission(user?.role ?? DEFAULT_ROLE, permission);
+
   const value = {
     isAuthenticated,
+    user,
+    hasPermission,
+    userError,
+    reloadUser: loadCurrentUser,
     login,
     logout,
+    extendSession,
+    sessionExpiresAt,
     loading,
   };
 
-  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
-};
\ No newline at end of file
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+      <SessionTimeoutDialog
+        open={warningOpen && !reLoginOpen}
+        expiresAt={sessionExpiresAt}
+        onExtend={extendSession}
+        onLogout={logout}
+      />
+      {reLoginOpen && (
+        <ReLoginDialog
+          open
+          defaultUsername={apiService.getCurrentUsername() ?? ''}
+          onSubmit={handleReLogin}
+          onCancel={logout}
+        />
+      )}
+    </AuthContext.Provider>
+  );
+};
@@ -0,0 +1,65 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import type { ReactNode } from 'react';
+import { Snackbar, Alert } from '@mui/material';
+import type { AlertColor } from '@mui/material';
+import { getErrorMessage } from '../services/api';
+import { NotificationContext } from '../hooks/useNotification';
+
+interface Notification {
+  id: number;
+  message: string;
+  severity: AlertColor;
+}
+
+interface NotificationProviderProps {
+  children: ReactNode;
+}
+
+export const NotificationProvider: React.FC<NotificationProviderProps> = ({ children }) => {
+  // Notifications are shown one at a time, oldest first
+  const [queue, setQueue] = useState<Notification[]>([]);
+  const [open, setOpen] = useState(true);
+  const current = queue[0];
+
+  const notify = useCallback((message: string, severity: AlertColor = 'info') => {
+    setQueue(prev => [...prev, { id: Date.now() + Math.random(), message, severity }]);
+    setOpen(true);
+  }, []);
+
+  const value = useMemo(() => ({
+    notify,
+    notifySuccess: (message: string) => notify(message, 'success'),
+    notifyError: (error: unknown, fallback: string) => {
+      console.error(fallback, error);
+      notify(getErrorMessage(error, fallback), 'error');
+    },
+  }), [notify]);
+
+  const handleClose = (_?: React.SyntheticEvent | Event, reason?: string) => {
+    if (reason === 'clickaway') return;
+    setOpen(false);
+  };
+
+  const handleExited = () => {
+    setQueue(prev => prev.slice(1));
+    setOpen(true);
+  };
+
+  return (
+    <NotificationContext.Provider value={value}>
+      {children}
+      <Snackbar
+        key={current?.id}
+        open={!!current && open}
+        autoHideDuration={current?.severity === 'error' ? 8000 : 4000}
+        onClose={handleClose}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'left' }}
+        slotProps={{ transition: { onExited: handleExited } }}
+      >
+        <Alert onClose={handleClose} severity={current?.severity} variant="filled" sx={{ width: '100%' }}>
+          {current?.message}
+        </Alert>
+      </Snackbar>
+    </NotificationContext.Provider>
+  );
+};
@@ -0,0 +1,10 @@
+interface ImportMetaEnv {
+  readonly VITE_APP_ENV?: string;
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_API_TIMEOUT?: string;
+  readonly VITE_AUTH_TOKEN_PATH?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,16 @@
+import { apiService, queryKeys } from '../services/api';
+import type { CustomFieldDefinition } from '../services/api';
+import { useQuery } from './useQuery';
+
+const NO_FIELDS: CustomFieldDefinition[] = [];
+
+// Definitions change rarely, so every task form and card can share one cached copy
+const CUSTOM_FIELDS_STALE_TIME = 5 * 60_000;
+
+// Custom field definitions set up by admins
+export const useCustomFields = () => {
+  const query = useQuery(queryKeys.customFields(), () => apiService.getCustomFields(), {
+    staleTime: CUSTOM_FIELDS_STALE_TIME,
+  });
+  return { ...query, fields: query.data ?? NO_FIELDS };
+};
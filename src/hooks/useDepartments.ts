@@ -0,0 +1,16 @@
+import { apiService, queryKeys } from '../services/api';
+import type { Department } from '../services/api';
+import { useQuery } from './useQuery';
+
+const NO_DEPARTMENTS: Department[] = [];
+
+// Departments change rarely, so the employee form and pages can share one cached copy
+const DEPARTMENTS_STALE_TIME = 5 * 60_000;
+
+// Departments employees are placed in
+export const useDepartments = () => {
+  const query = useQuery(queryKeys.departments(), () => apiService.getDepartments(), {
+    staleTime: DEPARTMENTS_STALE_TIME,
+  });
+  return { ...query, departments: query.data ?? NO_DEPARTMENTS };
+};
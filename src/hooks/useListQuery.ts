@@ -0,0 +1,45 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import type { ListQuery } from '../services/api';
+
+const NUMERIC_PARAMS = ['page', 'page_size', 'employee_id'];
+const NO_CLIENT_PARAMS: string[] = [];
+
+// Keeps list paging, sorting and filters in the URL query string so views can be bookmarked.
+// `clientParams` names URL params the page handles itself; they are left out of the query.
+export const useListQuery = <T extends ListQuery>(defaults: T, clientParams: string[] = NO_CLIENT_PARAMS) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Compared as a string so changes to client-only params do not produce a new query
+  const serverParams = useMemo(() => {
+    const params = new URLSearchParams(searchParams);
+    clientParams.forEach(key => params.delete(key));
+    return params.toString();
+  }, [searchParams, clientParams]);
+
+  const query = useMemo(() => {
+    const result = { ...defaults } as Record<string, unknown>;
+    new URLSearchParams(serverParams).forEach((value, key) => {
+      result[key] = NUMERIC_PARAMS.includes(key) ? Number(value) : value;
+    });
+    return result as T;
+  }, [defaults, serverParams]);
+
+  const updateQuery = useCallback((changes: Partial<T>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value === undefined || value === null || value === '') {
+          next.delete(key);
+        } else {
+          next.set(key, String(value));
+        }
+      });
+      // Any change other than paging itself starts again from the first page
+      if (!('page' in changes)) next.delete('page');
+      return next;
+    });
+  }, [setSearchParams]);
+
+  return [query, updateQuery] as const;
+};
@@ -0,0 +1,19 @@
+import { createContext, useContext } from 'react';
+import type { AlertColor } from '@mui/material';
+
+export interface NotificationContextType {
+  notify: (message: string, severity?: AlertColor) => void;
+  notifySuccess: (message: string) => void;
+  notifyError: (error: unknown, fallback: string) => void;
+}
+
+// Provided by NotificationProvider; kept here so the provider module only exports components
+export const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
+
+export const useNotification = () => {
+  const context = useContext(NotificationContext);
+  if (context === undefined) {
+    throw new Error('useNotification must be used within a NotificationProvider');
+  }
+  return context;
+};
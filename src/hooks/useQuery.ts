@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import { queryCache, hashQueryKey, DEFAULT_STALE_TIME } from '../services/queryCache';
+import type { QueryKey } from '../services/queryCache';
+
+interface UseQueryOptions {
+  staleTime?: number;
+  // Keep showing the previous key's data while a new key loads, e.g. when paging
+  keepPreviousData?: boolean;
+  // False holds off fetching until the data is actually needed; cached data is still returned
+  enabled?: boolean;
+}
+
+// Reads a cached query, showing cached data right away and refetching in the background once it is stale
+export const useQuery = <T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  { staleTime = DEFAULT_STALE_TIME, keepPreviousData = false, enabled = true }: UseQueryOptions = {}
+) => {
+  const hash = hashQueryKey(key);
+  // Rebuilt from the hash so callers can pass inline keys without refetching every render
+  const stableKey = useMemo(() => JSON.parse(hash) as QueryKey, [hash]);
+  const fetcherRef = useRef(fetcher);
+
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  const subscribe = useCallback((listener: () => void) => queryCache.subscribe(stableKey, listener), [stableKey]);
+  const getSnapshot = useCallback(() => queryCache.getState<T>(stableKey), [stableKey]);
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+  const previousData = useRef<T | undefined>(undefined);
+
+  useEffect(() => {
+    if (state.data !== undefined) previousData.current = state.data;
+  }, [state.data]);
+
+  useEffect(() => {
+    if (enabled && queryCache.isStale(stableKey, staleTime)) {
+      // Errors are kept in the cache state and read from there
+      queryCache.fetch(stableKey, () => fetcherRef.current()).catch(() => undefined);
+    }
+  }, [stableKey, staleTime, enabled]);
+
+  const refetch = useCallback(() => queryCache.fetch(stableKey, () => fetcherRef.current()), [stableKey]);
+
+  const setData = useCallback(
+    (updater: (data: T) => T) => queryCache.setData(stableKey, updater),
+    [stableKey]
+  );
+
+  const data = state.data ?? (keepPreviousData ? previousData.current : undefined);
+
+  return {
+    data,
+    error: state.error,
+    // Only the first load blocks the page; later refreshes happen behind the cached data
+    loading: enabled && data === undefined && state.error === undefined,
+    refreshing: state.isFetching,
+    refetch,
+    setData,
+  };
+};
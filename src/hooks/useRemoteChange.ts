@@ -0,0 +1,18 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { realtimeClient } from '../services/realtime';
+import type { RealtimeResource } from '../services/realtime';
+
+// Latest change another user made to a record, and whether it happened a moment ago
+export const useRemoteChange = (resource: RealtimeResource, id: number | undefined) => {
+  const getChange = useCallback(
+    () => (id === undefined ? undefined : realtimeClient.getChange(resource, id)),
+    [resource, id]
+  );
+  const getHighlighted = useCallback(
+    () => id !== undefined && realtimeClient.isHighlighted(resource, id),
+    [resource, id]
+  );
+  const change = useSyncExternalStore(realtimeClient.subscribe, getChange);
+  const highlighted = useSyncExternalStore(realtimeClient.subscribe, getHighlighted);
+  return { change, highlighted };
+};
@@ -0,0 +1,40 @@
+import { useCallback, useMemo } from 'react';
+import { apiService, queryKeys } from '../services/api';
+import type { Task } from '../services/api';
+import { useQuery } from './useQuery';
+import { buildDependencyIndex, getOpenBlockers } from '../utils/dependencies';
+
+const NO_TASKS: Task[] = [];
+
+// Relations between all tasks; blockers are often outside the page or filter being shown.
+// Loads every task, so screens that only show some use it while it is needed, e.g. while a dialog is open.
+export const useTaskDependencies = ({ enabled = true }: { enabled?: boolean } = {}) => {
+  const query = useQuery(queryKeys.tasks(), () => apiService.getTasks(), { enabled });
+  const tasks = query.data ?? NO_TASKS;
+  const index = useMemo(() => buildDependencyIndex(tasks), [tasks]);
+  const tasksById = useMemo(() => new Map(tasks.map(task => [task.id, task])), [tasks]);
+  const getBlockers = useCallback((task: Task) => getOpenBlockers(task, index, tasksById), [index, tasksById]);
+  return { ...query, tasks, index, tasksById, getBlockers };
+};
+
+// Open blockers of the tasks being shown, fetched by id instead of loading every task.
+// `known` are tasks already at hand; only blockers missing from both lists are fetched.
+export const useTaskBlockers = (tasks: Task[], known: Task[] = NO_TASKS) => {
+  const missingIds = useMemo(() => {
+    const loaded = new Set([...tasks, ...known].map(task => task.id));
+    return [...new Set(tasks.flatMap(task => task.blocked_by ?? []))]
+      .filter(id => !loaded.has(id))
+      .sort((a, b) => a - b);
+  }, [tasks, known]);
+  const query = useQuery(queryKeys.taskBatch(missingIds), () => apiService.getTasksById(missingIds), {
+    enabled: missingIds.length > 0,
+    keepPreviousData: true,
+  });
+  const fetched = query.data ?? NO_TASKS;
+  const tasksById = useMemo(
+    () => new Map([...fetched, ...known, ...tasks].map(task => [task.id, task])),
+    [fetched, known, tasks]
+  );
+  const index = useMemo(() => buildDependencyIndex([...tasksById.values()]), [tasksById]);
+  return useCallback((task: Task) => getOpenBlockers(task, index, tasksById), [index, tasksById]);
+};
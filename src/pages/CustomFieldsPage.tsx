@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import {
+  Typography,
+  Button,
+  Alert,
+  CircularProgress,
+  Box,
+  Paper,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  IconButton,
+  Chip
+} from '@mui/material';
+import { Add, Edit, Delete } from '@mui/icons-material';
+import { apiService, ApiError } from '../services/api';
+import type { CustomFieldDefinition } from '../services/api';
+import { CustomFieldDialog } from '../components/CustomFieldDialog';
+import { useCustomFields } from '../hooks/useCustomFields';
+import { useNotification } from '../hooks/useNotification';
+import { CUSTOM_FIELD_TYPE_LABELS } from '../utils/taskUtils';
+
+// Admin page for the extra fields shown in the task form and on task cards
+export const CustomFieldsPage: React.FC = () => {
+  const { notifySuccess, notifyError } = useNotification();
+  const { fields, loading, error } = useCustomFields();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingField, setEditingField] = useState<CustomFieldDefinition | null>(null);
+
+  const handleCreate = () => {
+    setEditingField(null);
+    setDialogOpen(true);
+  };
+
+  const handleEdit = (field: CustomFieldDefinition) => {
+    setEditingField(field);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (field: CustomFieldDefinition) => {
+    if (!window.confirm(`Delete the "${field.label}" field? Values stored on tasks will no longer be shown.`)) {
+      return;
+    }
+
+    try {
+      await apiService.deleteCustomField(field.id);
+      notifySuccess('Custom field deleted');
+    } catch (error) {
+      notifyError(error, 'Failed to delete custom field');
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Typography variant="h4" component="h1">
+          Custom Fields
+        </Typography>
+        <Button variant="contained" startIcon={<Add />} onClick={handleCreate}>
+          Add Field
+        </Button>
+      </Box>
+
+      {error !== undefined && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {ApiError.from(error).toUserMessage('Failed to fetch custom fields')}
+        </Alert>
+      )}
+
+      {fields.length > 0 ? (
+        <Paper variant="outlined">
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>Label</TableCell>
+                <TableCell>Key</TableCell>
+                <TableCell>Type</TableCell>
+                <TableCell>Options</TableCell>
+                <TableCell>Required</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {fields.map((field) => (
+                <TableRow key={field.id}>
+                  <TableCell>{field.label}</TableCell>
+                  <TableCell>
+                    <code>{field.key}</code>
+                  </TableCell>
+                  <TableCell>{CUSTOM_FIELD_TYPE_LABELS[field.type]}</TableCell>
+                  <TableCell>
+                    <Box display="flex" gap={0.5} flexWrap="wrap">
+                      {field.options?.map(option => <Chip key={option} label={option} size="small" />)}
+                    </Box>
+                  </TableCell>
+                  <TableCell>{field.required ? 'Yes' : 'No'}</TableCell>
+                  <TableCell align="right">
+                    <IconButton onClick={() => handleEdit(field)} color="primary" title="Edit Field">
+                      <Edit />
+                    </IconButton>
+                    <IconButton onClick={() => handleDelete(field)} color="error" title="Delete Field">
+                      <Delete />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Paper>
+      ) : error === undefined && (
+        <Box textAlign="center" mt={4}>
+          <Typography variant="h6" color="text.secondary">
+            No custom fields yet
+          </Typography>
+          <Typography variant="body2" color="text.secondary" mt={1}>
+            Fields added here appear in the task form and on task cards
+          </Typography>
+        </Box>
+      )}
+
+      <CustomFieldDialog
+        open={dialogOpen}
+        field={editingField}
+        onClose={() => setDialogOpen(false)}
+      />
+    </>
+  );
+};
@@ -0,0 +1,305 @@
+import React, { useMemo } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import type { ReactNode } from 'react';
+import {
+  Typography,
+  Alert,
+  CircularProgress,
+  Box,
+  Paper,
+  Chip,
+  List,
+  ListItemButton,
+  ListItemText,
+  Link,
+  Tooltip,
+  CardActionArea
+} from '@mui/material';
+import dayjs from 'dayjs';
+import { apiService, getErrorMessage, queryKeys } from '../services/api';
+import type { Task, Employee } from '../services/api';
+import { useQuery } from '../hooks/useQuery';
+import { TASK_STATUSES, STATUS_LABELS, getStatusColor, getStatusIcon, isOverdue } from '../utils/taskUtils';
+
+const UPCOMING_DAYS = 7;
+const TREND_DAYS = 14;
+const LIST_LIMIT = 5;
+
+interface DashboardWidgetProps {
+  title: string;
+  linkTo?: string;
+  linkLabel?: string;
+  children: ReactNode;
+}
+
+const DashboardWidget: React.FC<DashboardWidgetProps> = ({ title, linkTo, linkLabel = 'View all', children }) => (
+  <Paper variant="outlined" sx={{ p: 2, height: '100%' }}>
+    <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+      <Typography variant="h6" component="h2">
+        {title}
+      </Typography>
+      {linkTo && (
+        <Link component={RouterLink} to={linkTo} variant="body2">
+          {linkLabel}
+        </Link>
+      )}
+    </Box>
+    {children}
+  </Paper>
+);
+
+interface BarRowProps {
+  label: string;
+  value: number;
+  max: number;
+  to: string;
+  detail?: string;
+}
+
+// Horizontal bar whose width is relative to the largest value in the chart
+const BarRow: React.FC<BarRowProps> = ({ label, value, max, to, detail }) => (
+  <ListItemButton component={RouterLink} to={to} sx={{ px: 1, py: 0.5, borderRadius: 1 }}>
+    <Box width="100%">
+      <Box display="flex" justifyContent="space-between">
+        <Typography variant="body2" noWrap>
+          {label}
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          {detail ?? value}
+        </Typography>
+      </Box>
+      <Box height={8} bgcolor="grey.200" borderRadius={1} mt={0.5}>
+        <Box
+          height="100%"
+          width={`${max > 0 ? (value / max) * 100 : 0}%`}
+          bgcolor="primary.main"
+          borderRadius={1}
+        />
+      </Box>
+    </Box>
+  </ListItemButton>
+);
+
+const taskLink = (params: Record<string, string | number>) =>
+  `/tasks?${new URLSearchParams(Object.entries(params).map(([key, value]) => [key, String(value)]))}`;
+
+const NO_TASKS: Task[] = [];
+const NO_EMPLOYEES: Employee[] = [];
+
+const byDueDate = (a: Task, b: Task) => dayjs(a.due_date).valueOf() - dayjs(b.due_date).valueOf();
+
+export const DashboardPage: React.FC = () => {
+  const taskQuery = useQuery(queryKeys.tasks(), () => apiService.getTasks());
+  const employeeQuery = useQuery(queryKeys.employees(), () => apiService.getEmployees());
+  const tasks = taskQuery.data ?? NO_TASKS;
+  const employees = employeeQuery.data ?? NO_EMPLOYEES;
+  const loading = taskQuery.loading || employeeQuery.loading;
+  const queryError = taskQuery.error ?? employeeQuery.error;
+  const error = queryError ? getErrorMessage(queryError, 'Failed to load dashboard') : '';
+
+  const stats = useMemo(() => {
+    const now = dayjs();
+    const upcomingEnd = now.add(UPCOMING_DAYS, 'day').endOf('day');
+    const openTasks = tasks.filter(t => t.status !== 'completed');
+    const employeeById = new Map(employees.map(e => [e.id, e]));
+
+    const overdue = openTasks.filter(t => t.due_date && isOverdue(t.due_date)).sort(byDueDate);
+    const upcoming = openTasks
+      .filter(t => t.due_date && !dayjs(t.due_date).isBefore(now) && !dayjs(t.due_date).isAfter(upcomingEnd))
+      .sort(byDueDate);
+
+    const departments = new Map<string, { employees: number; open: number }>();
+    employees.forEach(employee => {
+      const entry = departments.get(employee.department) ?? { employees: 0, open: 0 };
+      entry.employees += 1;
+      departments.set(employee.department, entry);
+    });
+    openTasks.forEach(task => {
+      const employee = task.employee_id !== undefined ? employeeById.get(task.employee_id) : undefined;
+      const entry = employee && departments.get(employee.department);
+      if (entry) entry.open += 1;
+    });
+
+    const openByEmployee = employees
+      .map(employee => ({ employee, open: openTasks.filter(t => t.employee_id === employee.id).length }))
+      .sort((a, b) => b.open - a.open);
+
+    // Tasks carry no completion timestamp, so the last update of a completed task stands in for it
+    const trend = Array.from({ length: TREND_DAYS }, (_, index) => {
+      const day = now.subtract(TREND_DAYS - 1 - index, 'day').startOf('day');
+      const count = tasks.filter(t => t.status === 'completed' && dayjs(t.updated_at).isSame(day, 'day')).length;
+      return { day, count };
+    });
+
+    return {
+      byStatus: TASK_STATUSES.map(status => ({ status, count: tasks.filter(t => t.status === status).length })),
+      overdue,
+      upcoming,
+      upcomingRange: { from: now.startOf('day').toISOString(), to: upcomingEnd.toISOString() },
+      departments: [...departments.entries()]
+        .map(([name, entry]) => ({ name, ...entry }))
+        .sort((a, b) => b.open - a.open || a.name.localeCompare(b.name)),
+      openByEmployee,
+      trend,
+    };
+  }, [tasks, employees]);
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  const maxDepartmentOpen = Math.max(0, ...stats.departments.map(d => d.open));
+  const maxEmployeeOpen = Math.max(0, ...stats.openByEmployee.map(e => e.open));
+  const maxTrend = Math.max(0, ...stats.trend.map(t => t.count));
+  const completedInTrend = stats.trend.reduce((sum, t) => sum + t.count, 0);
+
+  const renderTaskList = (list: Task[], emptyText: string) => (
+    list.length === 0 ? (
+      <Typography variant="body2" color="text.secondary">
+        {emptyText}
+      </Typography>
+    ) : (
+      <List dense disablePadding>
+        {list.slice(0, LIST_LIMIT).map(task => (
+          <ListItemButton
+            key={task.id}
+            component={RouterLink}
+            to={task.employee_id ? `/employees/${task.employee_id}` : taskLink({ quick: 'unassigned' })}
+            sx={{ px: 1, borderRadius: 1 }}
+          >
+            <ListItemText
+              primary={task.title}
+              secondary={`${dayjs(task.due_date).format('MMM DD, YYYY HH:mm')}${task.employee ? ` · ${task.employee.name}` : ''}`}
+            />
+          </ListItemButton>
+        ))}
+      </List>
+    )
+  );
+
+  return (
+    <>
+      <Typography variant="h4" component="h1" mb={3}>
+        Dashboard
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Box
+        display="grid"
+        gridTemplateColumns="repeat(auto-fill, minmax(180px, 1fr))"
+        gap={2}
+        mb={3}
+      >
+        {stats.byStatus.map(({ status, count }) => (
+          <Paper key={status} variant="outlined">
+            <CardActionArea component={RouterLink} to={taskLink({ status })} sx={{ p: 2, textAlign: 'center' }}>
+              <Typography variant="h4">
+                {count}
+              </Typography>
+              <Chip label={STATUS_LABELS[status]} color={getStatusColor(status)} icon={getStatusIcon(status)} size="small" />
+            </CardActionArea>
+          </Paper>
+        ))}
+        <Paper variant="outlined">
+          <CardActionArea component={RouterLink} to={taskLink({ quick: 'overdue' })} sx={{ p: 2, textAlign: 'center' }}>
+            <Typography variant="h4" color={stats.overdue.length > 0 ? 'error.main' : undefined}>
+              {stats.overdue.length}
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              Overdue
+            </Typography>
+          </CardActionArea>
+        </Paper>
+      </Box>
+
+      <Box display="grid" gridTemplateColumns={{ xs: '1fr', md: 'repeat(2, 1fr)' }} gap={2}>
+        <DashboardWidget title="Overdue" linkTo={taskLink({ quick: 'overdue' })}>
+          {renderTaskList(stats.overdue, 'Nothing is overdue.')}
+        </DashboardWidget>
+
+        <DashboardWidget
+          title={`Due in the next ${UPCOMING_DAYS} days`}
+          linkTo={taskLink({ due_from: stats.upcomingRange.from, due_to: stats.upcomingRange.to })}
+        >
+          {renderTaskList(stats.upcoming, 'No open tasks are due soon.')}
+        </DashboardWidget>
+
+        <DashboardWidget title="Open tasks by department" linkTo="/employees" linkLabel="All employees">
+          {stats.departments.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              No departments yet.
+            </Typography>
+          ) : (
+            <List dense disablePadding>
+              {stats.departments.map(department => (
+                <BarRow
+                  key={department.name}
+                  label={department.name}
+                  value={department.open}
+                  max={maxDepartmentOpen}
+                  detail={`${department.open} open · ${department.employees} ${department.employees === 1 ? 'person' : 'people'}`}
+                  to={`/employees?${new URLSearchParams({ department: department.name })}`}
+                />
+              ))}
+            </List>
+          )}
+        </DashboardWidget>
+
+        <DashboardWidget title="Open tasks by employee">
+          {stats.openByEmployee.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              No employees yet.
+            </Typography>
+          ) : (
+            <List dense disablePadding sx={{ maxHeight: 320, overflowY: 'auto' }}>
+              {stats.openByEmployee.map(({ employee, open }) => (
+                <BarRow
+                  key={employee.id}
+                  label={employee.name}
+                  value={open}
+                  max={maxEmployeeOpen}
+                  to={taskLink({ employee_id: employee.id })}
+                />
+              ))}
+            </List>
+          )}
+        </DashboardWidget>
+
+        <Box gridColumn={{ md: '1 / -1' }}>
+          <DashboardWidget title={`Completed in the last ${TREND_DAYS} days`} linkTo={taskLink({ status: 'completed' })}>
+            <Typography variant="body2" color="text.secondary" mb={2}>
+              {completedInTrend} task{completedInTrend === 1 ? '' : 's'} completed, by day of last update
+            </Typography>
+            <Box display="flex" alignItems="flex-end" gap={1} height={160}>
+              {stats.trend.map(({ day, count }) => (
+                <Tooltip key={day.valueOf()} title={`${day.format('MMM DD')}: ${count} completed`}>
+                  <Box flex={1} height="100%" display="flex" flexDirection="column" justifyContent="flex-end" alignItems="center">
+                    <Box
+                      width="100%"
+                      height={`${maxTrend > 0 ? (count / maxTrend) * 100 : 0}%`}
+                      minHeight={count > 0 ? 4 : 1}
+                      bgcolor={count > 0 ? 'success.main' : 'grey.300'}
+                      borderRadius={1}
+                    />
+                    <Typography variant="caption" color="text.secondary" mt={0.5}>
+                      {day.format('DD')}
+                    </Typography>
+                  </Box>
+                </Tooltip>
+              ))}
+            </Box>
+          </DashboardWidget>
+        </Box>
+      </Box>
+    </>
+  );
+};
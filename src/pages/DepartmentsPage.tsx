@@ -0,0 +1,197 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Typography,
+  Button,
+  Alert,
+  CircularProgress,
+  Box,
+  Paper,
+  Stack,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  IconButton,
+  Link
+} from '@mui/material';
+import { Add, Edit, Delete, AutoFixHigh } from '@mui/icons-material';
+import { Link as RouterLink } from 'react-router-dom';
+import { apiService, ApiError, queryKeys } from '../services/api';
+import type { Department, Employee } from '../services/api';
+import { DepartmentDialog } from '../components/DepartmentDialog';
+import { DepartmentNormalizationDialog } from '../components/DepartmentNormalizationDialog';
+import { RequirePermission } from '../components/RequirePermission';
+import { useDepartments } from '../hooks/useDepartments';
+import { useQuery } from '../hooks/useQuery';
+import { useNotification } from '../hooks/useNotification';
+import { getDepartmentTree, getUnmappedDepartments } from '../utils/departments';
+
+const NO_EMPLOYEES: Employee[] = [];
+
+// Department hierarchy with managers and head counts
+export const DepartmentsPage: React.FC = () => {
+  const { notifySuccess, notifyError } = useNotification();
+  const { departments, loading, error } = useDepartments();
+  const employeeQuery = useQuery(queryKeys.employees(), () => apiService.getEmployees());
+  const employees = employeeQuery.data ?? NO_EMPLOYEES;
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingDepartment, setEditingDepartment] = useState<Department | null>(null);
+  const [normalizeOpen, setNormalizeOpen] = useState(false);
+
+  const rows = useMemo(() => getDepartmentTree(departments), [departments]);
+  const employeeById = useMemo(() => new Map(employees.map(employee => [employee.id, employee])), [employees]);
+  const unmappedCount = useMemo(
+    () => getUnmappedDepartments(employees, departments).reduce((count, group) => count + group.employees.length, 0),
+    [employees, departments]
+  );
+
+  const handleCreate = () => {
+    setEditingDepartment(null);
+    setDialogOpen(true);
+  };
+
+  const handleEdit = (department: Department) => {
+    setEditingDepartment(department);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (department: Department) => {
+    const members = employees.filter(employee => employee.department_id === department.id).length;
+    const warning = members > 0 ? ` ${members} employee${members === 1 ? ' is' : 's are'} still in it.` : '';
+    if (!window.confirm(`Delete the "${department.name}" department?${warning}`)) {
+      return;
+    }
+
+    try {
+      await apiService.deleteDepartment(department.id);
+      notifySuccess('Department deleted');
+    } catch (error) {
+      notifyError(error, 'Failed to delete department');
+    }
+  };
+
+  if (loading || employeeQuery.loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Typography variant="h4" component="h1">
+          Departments
+        </Typography>
+        <RequirePermission permission="departments:manage">
+          <Stack direction="row" spacing={2}>
+            <Button variant="outlined" startIcon={<AutoFixHigh />} onClick={() => setNormalizeOpen(true)}>
+              Normalize
+            </Button>
+            <Button variant="contained" startIcon={<Add />} onClick={handleCreate}>
+              Add Department
+            </Button>
+          </Stack>
+        </RequirePermission>
+      </Box>
+
+      {error !== undefined && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {ApiError.from(error).toUserMessage('Failed to fetch departments')}
+        </Alert>
+      )}
+
+      {unmappedCount > 0 && (
+        <RequirePermission permission="departments:manage">
+          <Alert
+            severity="info"
+            sx={{ mb: 3 }}
+            action={
+              <Button color="inherit" size="small" onClick={() => setNormalizeOpen(true)}>
+                Normalize
+              </Button>
+            }
+          >
+            {unmappedCount} employee{unmappedCount === 1 ? ' has a department' : 's have departments'} typed in by hand
+            and not linked to the list below.
+          </Alert>
+        </RequirePermission>
+      )}
+
+      {rows.length > 0 ? (
+        <Paper variant="outlined">
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>Name</TableCell>
+                <TableCell>Manager</TableCell>
+                <TableCell>Employees</TableCell>
+                <RequirePermission permission="departments:manage">
+                  <TableCell align="right">Actions</TableCell>
+                </RequirePermission>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rows.map(({ department, depth }) => {
+                const manager = department.manager_id ? employeeById.get(department.manager_id) : undefined;
+                return (
+                  <TableRow key={department.id}>
+                    <TableCell sx={{ pl: 2 + depth * 3 }}>{department.name}</TableCell>
+                    <TableCell>
+                      {manager ? (
+                        <Link component={RouterLink} to={`/employees/${manager.id}`}>
+                          {manager.name}
+                        </Link>
+                      ) : '—'}
+                    </TableCell>
+                    <TableCell>
+                      {employees.filter(employee => employee.department_id === department.id).length}
+                    </TableCell>
+                    <RequirePermission permission="departments:manage">
+                      <TableCell align="right">
+                        <IconButton onClick={() => handleEdit(department)} color="primary" title="Edit Department">
+                          <Edit />
+                        </IconButton>
+                        <IconButton onClick={() => handleDelete(department)} color="error" title="Delete Department">
+                          <Delete />
+                        </IconButton>
+                      </TableCell>
+                    </RequirePermission>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </Paper>
+      ) : error === undefined && (
+        <Box textAlign="center" mt={4}>
+          <Typography variant="h6" color="text.secondary">
+            No departments yet
+          </Typography>
+          <Typography variant="body2" color="text.secondary" mt={1}>
+            Departments added here are offered in the employee form
+          </Typography>
+        </Box>
+      )}
+
+      <DepartmentDialog
+        open={dialogOpen}
+        department={editingDepartment}
+        departments={departments}
+        employees={employees}
+        onClose={() => setDialogOpen(false)}
+      />
+
+      {normalizeOpen && (
+        <DepartmentNormalizationDialog
+          open
+          employees={employees}
+          departments={departments}
+          onClose={() => setNormalizeOpen(false)}
+        />
+      )}
+    </>
+  );
+};
@@ -0,0 +1,273 @@
+import React, { useState, useMemo } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import {
+  Typography,
+  Button,
+  Card,
+  CardContent,
+  Alert,
+  CircularProgress,
+  Box,
+  Chip,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemText,
+  Paper,
+  Stack
+} from '@mui/material';
+import { ArrowBack, Email, Work, Business, CheckCircle } from '@mui/icons-material';
+import dayjs from 'dayjs';
+import { apiService, ApiError, queryKeys } from '../services/api';
+import type { Task, Employee } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { useNotification } from '../hooks/useNotification';
+import { useQuery } from '../hooks/useQuery';
+import { useTaskDependencies } from '../hooks/useTaskDependencies';
+import { getStatusChangeBlockedMessage } from '../utils/dependencies';
+import { TASK_STATUSES, STATUS_LABELS, getStatusColor, getStatusIcon, isOverdue, getOpenChecklistWarning } from '../utils/taskUtils';
+
+const NO_EMPLOYEES: Employee[] = [];
+
+export const EmployeeDetailPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { hasPermission } = useAuth();
+  const { notify, notifySuccess, notifyError } = useNotification();
+  const employeeId = Number(id);
+  const employeeQuery = useQuery(queryKeys.employee(employeeId), () => apiService.getEmployee(employeeId));
+  // Loads every task; blockers may belong to other employees
+  const taskQuery = useTaskDependencies();
+  const employeeListQuery = useQuery(queryKeys.employees(), () => apiService.getEmployees());
+  const employee = employeeQuery.data ?? null;
+  const employees = employeeListQuery.data ?? NO_EMPLOYEES;
+  const tasks = useMemo(
+    () => taskQuery.tasks.filter(t => t.employee_id === employeeId),
+    [taskQuery.tasks, employeeId]
+  );
+  const loading = employeeQuery.loading || taskQuery.loading;
+  const queryError = employeeQuery.error ?? taskQuery.error;
+  const apiError = queryError ? ApiError.from(queryError) : null;
+  const error = !apiError
+    ? ''
+    : apiError.kind === 'not_found' ? 'Employee not found' : apiError.toUserMessage('Failed to fetch employee');
+  const [updatingTaskId, setUpdatingTaskId] = useState<number | null>(null);
+
+  const handleReassign = async (task: Task, employeeId: number) => {
+    setUpdatingTaskId(task.id);
+    try {
+      // A task handed to someone else drops off this page once the cache is patched
+      await apiService.updateTask(task.id, { employee_id: employeeId });
+      notifySuccess(`"${task.title}" reassigned`);
+    } catch (error) {
+      notifyError(error, 'Failed to reassign task');
+    } finally {
+      setUpdatingTaskId(null);
+    }
+  };
+
+  const handleComplete = async (task: Task) => {
+    const blockedMessage = getStatusChangeBlockedMessage(task, 'completed', taskQuery.getBlockers(task));
+    if (blockedMessage) {
+      notify(`"${task.title}" cannot start yet. ${blockedMessage}`, 'warning');
+      return;
+    }
+    const checklistWarning = getOpenChecklistWarning(task);
+    if (checklistWarning && !window.confirm(`${checklistWarning} Complete it anyway?`)) return;
+    setUpdatingTaskId(task.id);
+    try {
+      await apiService.updateTask(task.id, { status: 'completed' });
+      notifySuccess(`"${task.title}" completed`);
+    } catch (error) {
+      notifyError(error, 'Failed to complete task');
+    } finally {
+      setUpdatingTaskId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (!employee) {
+    return (
+      <>
+        <Button startIcon={<ArrowBack />} onClick={() => navigate('/employees')} sx={{ mb: 2 }}>
+          Back to Employees
+        </Button>
+        <Alert severity="error">{error || 'Employee not found'}</Alert>
+      </>
+    );
+  }
+
+  const completedCount = tasks.filter(t => t.status === 'completed').length;
+  const openCount = tasks.length - completedCount;
+  const overdueCount = tasks.filter(t => t.status !== 'completed' && t.due_date && isOverdue(t.due_date)).length;
+  const completionRatio = tasks.length > 0 ? Math.round((completedCount / tasks.length) * 100) : 0;
+
+  const stats = [
+    { label: 'Total Tasks', value: tasks.length },
+    { label: 'Open', value: openCount },
+    { label: 'Overdue', value: overdueCount, color: overdueCount > 0 ? 'error.main' : undefined },
+    { label: 'Completed', value: completedCount },
+  ];
+
+  return (
+    <>
+      <Button startIcon={<ArrowBack />} onClick={() => navigate('/employees')} sx={{ mb: 2 }}>
+        Back to Employees
+      </Button>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          <Typography variant="h4" component="h1" gutterBottom>
+            {employee.name}
+          </Typography>
+
+          <Stack direction={{ xs: 'column', sm: 'row' }} spacing={3}>
+            <Box display="flex" alignItems="center">
+              <Email sx={{ mr: 1, color: 'text.secondary' }} />
+              <Typography variant="body2" color="text.secondary">
+                {employee.email}
+              </Typography>
+            </Box>
+            <Box display="flex" alignItems="center">
+              <Business sx={{ mr: 1, color: 'text.secondary' }} />
+              <Typography variant="body2" color="text.secondary">
+                {employee.department}
+              </Typography>
+            </Box>
+            <Box display="flex" alignItems="center">
+              <Work sx={{ mr: 1, color: 'text.secondary' }} />
+              <Typography variant="body2" color="text.secondary">
+                {employee.position}
+              </Typography>
+            </Box>
+          </Stack>
+        </CardContent>
+      </Card>
+
+      <Box
+        display="grid"
+        gridTemplateColumns="repeat(auto-fill, minmax(180px, 1fr))"
+        gap={2}
+        mb={2}
+      >
+        {stats.map((stat) => (
+          <Paper key={stat.label} variant="outlined" sx={{ p: 2, textAlign: 'center' }}>
+            <Typography variant="h4" color={stat.color}>
+              {stat.value}
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              {stat.label}
+            </Typography>
+          </Paper>
+        ))}
+      </Box>
+
+      <Box mb={4}>
+        <Box display="flex" justifyContent="space-between" mb={1}>
+          <Typography variant="body2" color="text.secondary">
+            Completion
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {completionRatio}%
+          </Typography>
+        </Box>
+        <LinearProgress variant="determinate" value={completionRatio} color="success" />
+      </Box>
+
+      {TASK_STATUSES.map((status) => {
+        const statusTasks = tasks.filter(t => t.status === status);
+
+        return (
+          <Box key={status} mb={3}>
+            <Box display="flex" alignItems="center" gap={1} mb={1}>
+              <Typography variant="h6" component="h2">
+                {STATUS_LABELS[status]}
+              </Typography>
+              <Chip label={statusTasks.length} color={getStatusColor(status)} size="small" />
+            </Box>
+
+            {statusTasks.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                No {status} tasks
+              </Typography>
+            ) : (
+              <Paper variant="outlined">
+                <List disablePadding>
+                  {statusTasks.map((task) => (
+                    <ListItem
+                      key={task.id}
+                      divider
+                      sx={{ flexWrap: 'wrap', gap: 2 }}
+                    >
+                      <Box display="flex" alignItems="center" sx={{ color: 'text.secondary' }}>
+                        {getStatusIcon(task.status)}
+                      </Box>
+                      <ListItemText
+                        primary={task.title}
+                        secondary={task.due_date && (
+                          <Typography
+                            component="span"
+                            variant="body2"
+                            color={task.status !== 'completed' && isOverdue(task.due_date) ? 'error.main' : 'text.secondary'}
+                          >
+                            Due: {dayjs(task.due_date).format('MMM DD, YYYY HH:mm')}
+                            {task.status !== 'completed' && isOverdue(task.due_date) && ' (Overdue)'}
+                          </Typography>
+                        )}
+                        sx={{ flex: '1 1 200px' }}
+                      />
+                      <FormControl size="small" sx={{ minWidth: 200 }}>
+                        <InputLabel>Assigned to</InputLabel>
+                        <Select
+                          value={task.employee_id ?? ''}
+                          onChange={(e) => handleReassign(task, Number(e.target.value))}
+                          label="Assigned to"
+                          disabled={updatingTaskId === task.id || !hasPermission('tasks:edit')}
+                        >
+                          {employees.map((emp) => (
+                            <MenuItem key={emp.id} value={emp.id}>
+                              {emp.name}
+                            </MenuItem>
+                          ))}
+                        </Select>
+                      </FormControl>
+                      {task.status !== 'completed' && hasPermission('tasks:update_status') && (
+                        <Button
+                          size="small"
+                          variant="contained"
+                          color="success"
+                          startIcon={<CheckCircle />}
+                          onClick={() => handleComplete(task)}
+                          disabled={updatingTaskId === task.id}
+                        >
+                          Complete
+                        </Button>
+                      )}
+                    </ListItem>
+                  ))}
+                </List>
+              </Paper>
+            )}
+          </Box>
+        );
+      })}
+    </>
+  );
+};
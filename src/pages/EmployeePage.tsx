@@ -1,94 +1,97 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
   Typography,
   Button,
   Card,
   CardContent,
   CardActions,
-  Dialog,
-  DialogTitle,
-  DialogContent,
-  DialogActions,
   TextField,
   IconButton,
   Alert,
   CircularProgress,
   Box,
-  Chip
+  Chip,
+  Stack
 } from '@mui/material';
-import { Add, Edit, Delete, Email, Work, Business } from '@mui/icons-material';
-import { apiService } from '../services/api';
-import type { Employee, CreateEmployee } from '../services/api';
+import { Add, Edit, Delete, Email, Work, Business, Visibility, FileDownload, FileUpload } from '@mui/icons-material';
+import dayjs from 'dayjs';
+import { apiService, ApiError, createEmployeeSchema, queryKeys } from '../services/api';
+import type { Employee, CreateEmployee, EmployeeListQuery, EmployeeSortField } from '../services/api';
+import { useListQuery } from '../hooks/useListQuery';
+import { useQuery } from '../hooks/useQuery';
+import { useDepartments } from '../hooks/useDepartments';
+import { SortControl } from '../components/SortControl';
+import { ListPagination } from '../components/ListPagination';
+import { RequirePermission } from '../components/RequirePermission';
+import { useNotification } from '../hooks/useNotification';
+import { CsvImportDialog } from '../components/CsvImportDialog';
+import type { CsvImportField, ParsedCsvRow } from '../components/CsvImportDialog';
+import { EmployeeFormDialog } from '../components/EmployeeFormDialog';
+import { getSchemaErrors } from '../utils/validation';
+import { toCsv, downloadCsv } from '../utils/csv';
 
-interface EmployeeFormData {
-  name: string;
-  email: string;
-  department: string;
-  position: string;
-}
+const DEFAULT_EMPLOYEE_QUERY: EmployeeListQuery = {
+  page: 1,
+  page_size: 12,
+  sort_by: 'name',
+  sort_dir: 'asc',
+};
+
+const NO_EMPLOYEES: Employee[] = [];
+
+const EMPLOYEE_SORT_FIELDS: { value: EmployeeSortField; label: string }[] = [
+  { value: 'name', label: 'Name' },
+  { value: 'department', label: 'Department' },
+  { value: 'position', label: 'Position' },
+  { value: 'created_at', label: 'Date Added' },
+];
+
+const EMPLOYEE_CSV_FIELDS: CsvImportField[] = [
+  { key: 'name', label: 'Name', required: true },
+  { key: 'email', label: 'Email', required: true },
+  { key: 'department', label: 'Department', required: true },
+  { key: 'position', label: 'Position', required: true },
+];
 
 export const EmployeePage: React.FC = () => {
-  const [employees, setEmployees] = useState<Employee[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState('');
+  const navigate = useNavigate();
+  const { notifySuccess, notifyError } = useNotification();
+  const [query, updateQuery] = useListQuery(DEFAULT_EMPLOYEE_QUERY);
+  const employeeQuery = useQuery(queryKeys.employeeList(query), () => apiService.listEmployees(query), { keepPreviousData: true });
+  const employees = employeeQuery.data?.items ?? NO_EMPLOYEES;
+  const totalEmployees = employeeQuery.data?.total ?? 0;
+  const loading = employeeQuery.loading;
+  const error = employeeQuery.error ? ApiError.from(employeeQuery.error).toUserMessage('Failed to fetch employees') : '';
+  const [departmentFilter, setDepartmentFilter] = useState(query.department ?? '');
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingEmployee, setEditingEmployee] = useState<Employee | null>(null);
-  const [formData, setFormData] = useState<EmployeeFormData>({
-    name: '',
-    email: '',
-    department: '',
-    position: '',
+  const [importOpen, setImportOpen] = useState(false);
+  // Every employee, not just this page, loaded only while the form or CSV import checks against it
+  const allEmployeesQuery = useQuery(queryKeys.employees(), () => apiService.getEmployees(), {
+    enabled: dialogOpen || importOpen,
   });
-  const [formErrors, setFormErrors] = useState<Partial<EmployeeFormData>>({});
-  const [submitting, setSubmitting] = useState(false);
-
-  useEffect(() => {
-    fetchEmployees();
-  }, []);
+  const allEmployees = allEmployeesQuery.data ?? NO_EMPLOYEES;
+  const { departments, loading: departmentsLoading } = useDepartments();
 
-  const fetchEmployees = async () => {
-    try {
-      setLoading(true);
-      const data = await apiService.getEmployees();
-      setEmployees(data);
-      setError('');
-    } catch (error: any) {
-      setError('Failed to fetch employees');
-      console.error('Error fetching employees:', error);
-    } finally {
-      setLoading(false);
+  const applyDepartmentFilter = () => {
+    if (departmentFilter.trim() !== (query.department ?? '')) {
+      updateQuery({ department: departmentFilter.trim() });
     }
   };
 
-  const validateForm = (): boolean => {
-    const errors: Partial<EmployeeFormData> = {};
-
-    if (!formData.name.trim()) errors.name = 'Name is required';
-    if (!formData.email.trim()) errors.email = 'Email is required';
-    else if (!/\S+@\S+\.\S+/.test(formData.email)) errors.email = 'Invalid email format';
-    if (!formData.department.trim()) errors.department = 'Department is required';
-    if (!formData.position.trim()) errors.position = 'Position is required';
-
-    setFormErrors(errors);
-    return Object.keys(errors).length === 0;
+  const handleClearFilter = () => {
+    setDepartmentFilter('');
+    updateQuery({ department: undefined });
   };
 
   const handleCreateEmployee = () => {
     setEditingEmployee(null);
-    setFormData({ name: '', email: '', department: '', position: '' });
-    setFormErrors({});
     setDialogOpen(true);
   };
 
   const handleEditEmployee = (employee: Employee) => {
     setEditingEmployee(employee);
-    setFormData({
-      name: employee.name,
-      email: employee.email,
-      department: employee.department,
-      position: employee.position,
-    });
-    setFormErrors({});
     setDialogOpen(true);
   };
 
@@ -99,43 +102,57 @@ export const EmployeePage: React.FC = () => {
 
     try {
       await apiService.deleteEmployee(employee.id);
-      setEmployees(employees.filter(emp => emp.id !== employee.id));
-    } catch (error: any) {
-      setError(error.response?.data?.detail || 'Failed to delete employee');
+      notifySuccess(`${employee.name} deleted`);
+    } catch (error) {
+      notifyError(error, 'Failed to delete employee');
     }
   };
 
-  const handleSubmit = async () => {
-    if (!validateForm()) return;
-
-    setSubmitting(true);
+  // Every employee matching the department filter, not just the current page
+  const handleExport = async () => {
+    let matching: Employee[];
     try {
-      if (editingEmployee) {
-        // Update existing employee
-        const updated = await apiService.updateEmployee(editingEmployee.id, formData);
-        setEmployees(employees.map(emp => 
-          emp.id === editingEmployee.id ? updated : emp
-        ));
-      } else {
-        // Create new employee
-        const newEmployee = await apiService.createEmployee(formData as CreateEmployee);
-        setEmployees([...employees, newEmployee]);
-      }
-      setDialogOpen(false);
-      setError('');
-    } catch (error: any) {
-      setError(error.response?.data?.detail || 'Failed to save employee');
-    } finally {
-      setSubmitting(false);
+      matching = (await apiService.getEmployees()).filter(emp => !query.department || emp.department === query.department);
+    } catch (error) {
+      notifyError(error, 'Failed to export employees');
+      return;
     }
+    const csv = toCsv(
+      ['id', 'name', 'email', 'department', 'position', 'created_at'],
+      matching.map(emp => [
+        emp.id,
+        emp.name,
+        emp.email,
+        emp.department,
+        emp.position,
+        dayjs(emp.created_at).toISOString(),
+      ])
+    );
+    downloadCsv(`employees-${dayjs().format('YYYY-MM-DD')}.csv`, csv);
   };
 
-  const handleInputChange = (field: keyof EmployeeFormData, value: string) => {
-    setFormData(prev => ({ ...prev, [field]: value }));
-    // Clear error when user starts typing
-    if (formErrors[field]) {
-      setFormErrors(prev => ({ ...prev, [field]: undefined }));
+  const parseEmployeeRow = useCallback((values: Record<string, string>, earlier: CreateEmployee[]): ParsedCsvRow<CreateEmployee> => {
+    const department = departments.find(d => d.name === values.department);
+    const record: CreateEmployee = {
+      name: values.name,
+      email: values.email,
+      department: values.department,
+      department_id: department?.id,
+      position: values.position,
+    };
+    const errors = getSchemaErrors(createEmployeeSchema, record, {
+      existingEmails: allEmployees.map(e => e.email),
+      departmentNames: departments.map(d => d.name),
+    }) as Record<string, string>;
+    const email = values.email.toLowerCase();
+    if (!errors.email && earlier.some(e => e.email.toLowerCase() === email)) {
+      errors.email = 'Email appears more than once in this file';
     }
+    return { record, errors };
+  }, [allEmployees, departments]);
+
+  const handleImported = (created: Employee[]) => {
+    notifySuccess(`${created.length} employee${created.length === 1 ? '' : 's'} imported`);
   };
 
   if (loading) {
@@ -152,15 +169,51 @@ export const EmployeePage: React.FC = () => {
         <Typography variant="h4" component="h1">
           Employees
         </Typography>
-        <Button
-          variant="contained"
-          startIcon={<Add />}
-          onClick={handleCreateEmployee}
-        >
-          Add Employee
-        </Button>
+        <Stack direction="row" spacing={1}>
+          <Button
+            variant="outlined"
+            startIcon={<FileDownload />}
+            onClick={handleExport}
+            disabled={employees.length === 0}
+          >
+            Export CSV
+          </Button>
+          <RequirePermission permission="employees:create">
+            <Button
+              variant="outlined"
+              startIcon={<FileUpload />}
+              onClick={() => setImportOpen(true)}
+            >
+              Import CSV
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<Add />}
+              onClick={handleCreateEmployee}
+            >
+              Add Employee
+            </Button>
+          </RequirePermission>
+        </Stack>
       </Box>
 
+      <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} mb={3}>
+        <TextField
+          size="small"
+          label="Department"
+          value={departmentFilter}
+          onChange={(e) => setDepartmentFilter(e.target.value)}
+          onBlur={applyDepartmentFilter}
+          onKeyDown={(e) => e.key === 'Enter' && applyDepartmentFilter()}
+        />
+        <SortControl
+          fields={EMPLOYEE_SORT_FIELDS}
+          sortBy={query.sort_by ?? 'name'}
+          sortDir={query.sort_dir ?? 'asc'}
+          onChange={(sort_by, sort_dir) => updateQuery({ sort_by, sort_dir })}
+        />
+      </Stack>
+
       {error && (
         <Alert severity="error" sx={{ mb: 3 }}>
           {error}
@@ -212,102 +265,86 @@ export const EmployeePage: React.FC = () => {
               
               <CardActions>
                 <IconButton
-                  onClick={() => handleEditEmployee(employee)}
+                  onClick={() => navigate(`/employees/${employee.id}`)}
                   color="primary"
-                  title="Edit Employee"
+                  title="View Details"
                 >
-                  <Edit />
-                </IconButton>
-                <IconButton
-                  onClick={() => handleDeleteEmployee(employee)}
-                  color="error"
-                  title="Delete Employee"
-                >
-                  <Delete />
+                  <Visibility />
                 </IconButton>
+                <RequirePermission permission="employees:edit">
+                  <IconButton
+                    onClick={() => handleEditEmployee(employee)}
+                    color="primary"
+                    title="Edit Employee"
+                  >
+                    <Edit />
+                  </IconButton>
+                </RequirePermission>
+                <RequirePermission permission="employees:delete">
+                  <IconButton
+                    onClick={() => handleDeleteEmployee(employee)}
+                    color="error"
+                    title="Delete Employee"
+                  >
+                    <Delete />
+                  </IconButton>
+                </RequirePermission>
               </CardActions>
             </Card>
         ))}
       </Box>
 
-      {employees.length === 0 && !loading && (
-        <Box textAlign="center" mt={4}>
-          <Typography variant="h6" color="text.secondary">
-            No employees found
-          </Typography>
-          <Typography variant="body2" color="text.secondary" mt={1}>
-            Click "Add Employee" to create your first employee record
-          </Typography>
-        </Box>
+      {totalEmployees > 0 && (
+        <ListPagination
+          total={totalEmployees}
+          page={query.page ?? 1}
+          pageSize={query.page_size ?? 12}
+          onChange={(page, page_size) => updateQuery({ page, page_size })}
+        />
       )}
 
-      {/* Create/Edit Employee Dialog */}
-      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth>
-        <DialogTitle>
-          {editingEmployee ? 'Edit Employee' : 'Add New Employee'}
-        </DialogTitle>
-        
-        <DialogContent>
-          <TextField
-            autoFocus
-            margin="dense"
-            label="Full Name"
-            fullWidth
-            variant="outlined"
-            value={formData.name}
-            onChange={(e) => handleInputChange('name', e.target.value)}
-            error={!!formErrors.name}
-            helperText={formErrors.name}
-            disabled={submitting}
-          />
-          
-          <TextField
-            margin="dense"
-            label="Email"
-            type="email"
-            fullWidth
-            variant="outlined"
-            value={formData.email}
-            onChange={(e) => handleInputChange('email', e.target.value)}
-            error={!!formErrors.email}
-            helperText={formErrors.email}
-            disabled={submitting}
-          />
-          
-          <TextField
-            margin="dense"
-            label="Department"
-            fullWidth
-            variant="outlined"
-            value={formData.department}
-            onChange={(e) => handleInputChange('department', e.target.value)}
-            error={!!formErrors.department}
-            helperText={formErrors.department}
-            disabled={submitting}
-          />
-          
-          <TextField
-            margin="dense"
-            label="Position"
-            fullWidth
-            variant="outlined"
-            value={formData.position}
-            onChange={(e) => handleInputChange('position', e.target.value)}
-            error={!!formErrors.position}
-            helperText={formErrors.position}
-            disabled={submitting}
-          />
-        </DialogContent>
-        
-        <DialogActions>
-          <Button onClick={() => setDialogOpen(false)} disabled={submitting}>
-            Cancel
-          </Button>
-          <Button onClick={handleSubmit} variant="contained" disabled={submitting}>
-            {submitting ? <CircularProgress size={24} /> : editingEmployee ? 'Update' : 'Create'}
-          </Button>
-        </DialogActions>
-      </Dialog>
+      {employees.length === 0 && !loading && !error && (
+        query.department ? (
+          <Box textAlign="center" mt={4}>
+            <Typography variant="h6" color="text.secondary">
+              No employees in "{query.department}"
+            </Typography>
+            <Button sx={{ mt: 1 }} onClick={handleClearFilter}>
+              Clear filter
+            </Button>
+          </Box>
+        ) : (
+          <Box textAlign="center" mt={4}>
+            <Typography variant="h6" color="text.secondary">
+              No employees found
+            </Typography>
+            <RequirePermission permission="employees:create">
+              <Typography variant="body2" color="text.secondary" mt={1}>
+                Click "Add Employee" to create your first employee record
+              </Typography>
+            </RequirePermission>
+          </Box>
+        )
+      )}
+
+      <CsvImportDialog
+        open={importOpen && !allEmployeesQuery.loading && !departmentsLoading}
+        title="Import Employees"
+        fields={EMPLOYEE_CSV_FIELDS}
+        parseRow={parseEmployeeRow}
+        create={(record) => apiService.createEmployee(record)}
+        onImported={handleImported}
+        onClose={() => setImportOpen(false)}
+        reportFilename="employee-import-rejected.csv"
+      />
+
+      <EmployeeFormDialog
+        open={dialogOpen}
+        employee={editingEmployee}
+        employees={allEmployees}
+        employeesLoading={allEmployeesQuery.loading}
+        onClose={() => setDialogOpen(false)}
+      />
     </>
   );
 };
\ No newline at end of file
@@ -11,6 +11,7 @@ import {
   CircularProgress
 } from '@mui/material';
 import { useAuth } from '../contexts/AuthContext';
+import { getErrorMessage } from '../services/api';
 
 export const LoginPage: React.FC = () => {
   const [username, setUsername] = useState('');
@@ -23,7 +24,7 @@ export const LoginPage: React.FC = () => {
 
   // Redirect if already authenticated
   if (isAuthenticated) {
-    return <Navigate to="/employees" replace />;
+    return <Navigate to="/dashboard" replace />;
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -33,9 +34,9 @@ export const LoginPage: React.FC = () => {
 
     try {
       await login(username, password);
-      navigate('/employees');
-    } catch (error: any) {
-      setError(error.response?.data?.detail || 'Login failed. Please try again.');
+      navigate('/dashboard');
+    } catch (error) {
+      setError(getErrorMessage(error, 'Login failed. Please try again.'));
     } finally {
       setLoading(false);
     }
@@ -0,0 +1,155 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Typography,
+  Alert,
+  CircularProgress,
+  Box,
+  Paper,
+  Stack,
+  Button,
+  IconButton
+} from '@mui/material';
+import { ZoomIn, ZoomOut, UnfoldLess, UnfoldMore } from '@mui/icons-material';
+import { apiService, getErrorMessage, queryKeys } from '../services/api';
+import type { Employee, Task } from '../services/api';
+import { useQuery } from '../hooks/useQuery';
+import { OrgChartTree } from '../components/OrgChartTree';
+import { buildOrgChart, collectManagerIds } from '../utils/orgChart';
+
+const NO_EMPLOYEES: Employee[] = [];
+const NO_TASKS: Task[] = [];
+
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.25, 1.5];
+const DEFAULT_ZOOM_INDEX = 2;
+
+// Who reports to whom, built from each employee's manager
+export const OrgChartPage: React.FC = () => {
+  const navigate = useNavigate();
+  const employeeQuery = useQuery(queryKeys.employees(), () => apiService.getEmployees());
+  const taskQuery = useQuery(queryKeys.tasks(), () => apiService.getTasks());
+  const employees = employeeQuery.data ?? NO_EMPLOYEES;
+  const tasks = taskQuery.data ?? NO_TASKS;
+  const loading = employeeQuery.loading || taskQuery.loading;
+  const queryError = employeeQuery.error ?? taskQuery.error;
+  const [zoomIndex, setZoomIndex] = useState(DEFAULT_ZOOM_INDEX);
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+
+  const chart = useMemo(() => buildOrgChart(employees), [employees]);
+  const employeeById = useMemo(() => new Map(employees.map(employee => [employee.id, employee])), [employees]);
+  const cycleIds = useMemo(() => new Set(chart.cycles.flat()), [chart]);
+  const orphanIds = useMemo(() => new Set(chart.orphans.map(employee => employee.id)), [chart]);
+  const openTasks = useMemo(() => {
+    const counts = new Map<number, number>();
+    tasks.forEach(task => {
+      if (task.status === 'completed' || task.employee_id === undefined) return;
+      counts.set(task.employee_id, (counts.get(task.employee_id) ?? 0) + 1);
+    });
+    return counts;
+  }, [tasks]);
+
+  const handleToggle = (employeeId: number) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(employeeId)) {
+        next.delete(employeeId);
+      } else {
+        next.add(employeeId);
+      }
+      return next;
+    });
+  };
+
+  const formatCycle = (cycle: number[]) =>
+    [...cycle, cycle[0]].map(id => employeeById.get(id)?.name ?? `#${id}`).join(' → ');
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3} flexWrap="wrap" gap={2}>
+        <Typography variant="h4" component="h1">
+          Org Chart
+        </Typography>
+        <Stack direction="row" spacing={1} alignItems="center">
+          <Button startIcon={<UnfoldMore />} onClick={() => setCollapsed(new Set())}>
+            Expand all
+          </Button>
+          <Button startIcon={<UnfoldLess />} onClick={() => setCollapsed(new Set(collectManagerIds(chart.roots)))}>
+            Collapse all
+          </Button>
+          <IconButton
+            onClick={() => setZoomIndex(index => index - 1)}
+            disabled={zoomIndex === 0}
+            title="Zoom out"
+          >
+            <ZoomOut />
+          </IconButton>
+          <Button size="small" onClick={() => setZoomIndex(DEFAULT_ZOOM_INDEX)} title="Reset zoom">
+            {Math.round(ZOOM_LEVELS[zoomIndex] * 100)}%
+          </Button>
+          <IconButton
+            onClick={() => setZoomIndex(index => index + 1)}
+            disabled={zoomIndex === ZOOM_LEVELS.length - 1}
+            title="Zoom in"
+          >
+            <ZoomIn />
+          </IconButton>
+        </Stack>
+      </Box>
+
+      {queryError !== undefined && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {getErrorMessage(queryError, 'Failed to load the org chart')}
+        </Alert>
+      )}
+
+      {chart.cycles.length > 0 && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          Reporting {chart.cycles.length === 1 ? 'loop' : 'loops'} found; change one of the managers to break{' '}
+          {chart.cycles.length === 1 ? 'it' : 'them'}:
+          {chart.cycles.map(cycle => <div key={cycle.join('-')}>{formatCycle(cycle)}</div>)}
+        </Alert>
+      )}
+
+      {chart.orphans.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {chart.orphans.map(employee => employee.name).join(', ')}{' '}
+          {chart.orphans.length === 1 ? 'reports to a manager who does' : 'report to managers who do'} not exist
+          any more; they are shown at the top level.
+        </Alert>
+      )}
+
+      {employees.length > 0 ? (
+        <Paper variant="outlined" sx={{ p: 3, overflow: 'auto', maxHeight: '75vh' }}>
+          <Box sx={{ zoom: ZOOM_LEVELS[zoomIndex] }}>
+            <OrgChartTree
+              roots={chart.roots}
+              openTasks={openTasks}
+              collapsed={collapsed}
+              onToggle={handleToggle}
+              cycleIds={cycleIds}
+              orphanIds={orphanIds}
+              onSelect={(employee) => navigate(`/tasks?employee_id=${employee.id}`)}
+            />
+          </Box>
+        </Paper>
+      ) : queryError === undefined && (
+        <Box textAlign="center" mt={4}>
+          <Typography variant="h6" color="text.secondary">
+            No employees yet
+          </Typography>
+          <Typography variant="body2" color="text.secondary" mt={1}>
+            Set a manager on employees to build the chart
+          </Typography>
+        </Box>
+      )}
+    </>
+  );
+};
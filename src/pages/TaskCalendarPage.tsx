@@ -0,0 +1,181 @@
+import React, { useState, useMemo } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  Typography,
+  Button,
+  Alert,
+  CircularProgress,
+  Box,
+  IconButton,
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup
+} from '@mui/material';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDayjs } from '@mui/x-date-pickers/AdapterDayjs';
+import { ArrowBack, ChevronLeft, ChevronRight } from '@mui/icons-material';
+import dayjs from 'dayjs';
+import type { Dayjs } from 'dayjs';
+import { apiService, ApiError, queryKeys } from '../services/api';
+import type { Task, Employee } from '../services/api';
+import { TaskCalendar } from '../components/TaskCalendar';
+import type { CalendarView } from '../components/TaskCalendar';
+import { TaskFormDialog } from '../components/TaskFormDialog';
+import { useNotification } from '../hooks/useNotification';
+import { useQuery } from '../hooks/useQuery';
+import { collectLabels } from '../utils/taskUtils';
+
+const NO_TASKS: Task[] = [];
+const NO_EMPLOYEES: Employee[] = [];
+
+const CALENDAR_VIEWS: CalendarView[] = ['month', 'week', 'day'];
+
+// Hour used for new tasks created from a month or week cell
+const DEFAULT_DUE_HOUR = 9;
+
+export const TaskCalendarPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { notify, notifyError } = useNotification();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const taskQuery = useQuery(queryKeys.tasks(), () => apiService.getTasks());
+  const employeeQuery = useQuery(queryKeys.employees(), () => apiService.getEmployees());
+  const tasks = taskQuery.data ?? NO_TASKS;
+  const employees = employeeQuery.data ?? NO_EMPLOYEES;
+  const loading = taskQuery.loading;
+  const error = taskQuery.error ? ApiError.from(taskQuery.error).toUserMessage('Failed to fetch tasks') : '';
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [newDueDate, setNewDueDate] = useState<Dayjs | null>(null);
+  const labels = useMemo(() => collectLabels(tasks), [tasks]);
+
+  // View and date live in the URL so a calendar page can be bookmarked
+  const viewParam = searchParams.get('view') as CalendarView | null;
+  const view: CalendarView = viewParam && CALENDAR_VIEWS.includes(viewParam) ? viewParam : 'month';
+  const dateParam = searchParams.get('date');
+  const date = useMemo(() => {
+    const parsed = dateParam ? dayjs(dateParam) : dayjs();
+    return (parsed.isValid() ? parsed : dayjs()).startOf('day');
+  }, [dateParam]);
+
+  const showPeriod = (nextView: CalendarView, nextDate: Dayjs) => {
+    setSearchParams({ view: nextView, date: nextDate.format('YYYY-MM-DD') });
+  };
+
+  const handleViewChange = (_: React.MouseEvent<HTMLElement>, nextView: CalendarView | null) => {
+    if (nextView) showPeriod(nextView, date);
+  };
+
+  const handleMove = async (task: Task, dueDate: Dayjs) => {
+    // Move the task right away and put it back if the server rejects the change
+    taskQuery.setData(prev => prev.map(t => t.id === task.id ? { ...t, due_date: dueDate.toISOString() } : t));
+    try {
+      await apiService.updateTask(task.id, { due_date: dueDate.toISOString() });
+    } catch (error) {
+      taskQuery.setData(prev => prev.map(t => t.id === task.id ? task : t));
+      notifyError(error, `Failed to move "${task.title}" to ${dueDate.format('MMM DD')}`);
+    }
+  };
+
+  const handleSlotClick = (slot: Dayjs) => {
+    const now = dayjs();
+    // New tasks cannot be due in the past: earlier days are ignored and a passed hour today moves to the next whole hour
+    if (slot.isBefore(now, 'day')) {
+      notify('New tasks cannot be due in the past', 'info');
+      return;
+    }
+    const dueDate = view === 'day' ? slot : slot.hour(DEFAULT_DUE_HOUR);
+    setEditingTask(null);
+    setNewDueDate(dueDate.isBefore(now, 'minute') ? now.add(1, 'hour').startOf('hour') : dueDate);
+    setDialogOpen(true);
+  };
+
+  const handleTaskClick = (task: Task) => {
+    setEditingTask(task);
+    setDialogOpen(true);
+  };
+
+  const periodLabel = view === 'month'
+    ? date.format('MMMM YYYY')
+    : view === 'week'
+      ? `${date.startOf('week').format('MMM DD')} – ${date.endOf('week').format('MMM DD, YYYY')}`
+      : date.format('dddd, MMM DD, YYYY');
+  const undatedCount = tasks.filter(t => !t.due_date).length;
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDayjs}>
+      <Button startIcon={<ArrowBack />} onClick={() => navigate('/tasks')} sx={{ mb: 2 }}>
+        Back to Tasks
+      </Button>
+
+      <Box display="flex" justifyContent="space-between" alignItems="center" flexWrap="wrap" gap={2} mb={3}>
+        <Typography variant="h4" component="h1">
+          Task Calendar
+        </Typography>
+        <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap>
+          <IconButton onClick={() => showPeriod(view, date.subtract(1, view))} title="Previous">
+            <ChevronLeft />
+          </IconButton>
+          <Button variant="outlined" onClick={() => showPeriod(view, dayjs())}>
+            Today
+          </Button>
+          <IconButton onClick={() => showPeriod(view, date.add(1, view))} title="Next">
+            <ChevronRight />
+          </IconButton>
+          <Typography variant="h6" component="h2" minWidth={220} textAlign="center">
+            {periodLabel}
+          </Typography>
+          <ToggleButtonGroup
+            value={view}
+            exclusive
+            onChange={handleViewChange}
+            size="small"
+            aria-label="calendar view"
+          >
+            <ToggleButton value="month">Month</ToggleButton>
+            <ToggleButton value="week">Week</ToggleButton>
+            <ToggleButton value="day">Day</ToggleButton>
+          </ToggleButtonGroup>
+        </Stack>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error}
+        </Alert>
+      )}
+
+      <TaskCalendar
+        tasks={tasks}
+        view={view}
+        date={date}
+        onMove={handleMove}
+        onTaskClick={handleTaskClick}
+        onSlotClick={handleSlotClick}
+        onShowDay={(day) => showPeriod('day', day)}
+      />
+
+      {undatedCount > 0 && (
+        <Typography variant="body2" color="text.secondary" mt={2}>
+          {undatedCount} task{undatedCount === 1 ? ' has' : 's have'} no due date and {undatedCount === 1 ? 'is' : 'are'} not shown.
+        </Typography>
+      )}
+
+      <TaskFormDialog
+        open={dialogOpen}
+        task={editingTask}
+        employees={employees}
+        initialDueDate={newDueDate}
+        labelSuggestions={labels}
+        onClose={() => setDialogOpen(false)}
+      />
+    </LocalizationProvider>
+  );
+};
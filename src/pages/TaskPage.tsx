@@ -1,189 +1,455 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useMemo, useCallback } from 'react';
+import { useSearchParams, useNavigate } from 'react-router-dom';
 import {
   Typography,
   Button,
-  Card,
-  CardContent,
-  CardActions,
-  Dialog,
-  DialogTitle,
-  DialogContent,
-  DialogActions,
-  TextField,
-  IconButton,
   Alert,
   CircularProgress,
   Box,
-  Chip,
   FormControl,
   InputLabel,
   Select,
   MenuItem,
-  Stack
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup
 } from '@mui/material';
-import { DateTimePicker } from '@mui/x-date-pickers/DateTimePicker';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
 import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
 import { AdapterDayjs } from '@mui/x-date-pickers/AdapterDayjs';
-import { Add, Edit, Delete, Person, CheckCircle, Schedule, PlayArrow } from '@mui/icons-material';
+import { Add, GridView, ViewKanban, CalendarMonth, Checklist, FileDownload, FileUpload } from '@mui/icons-material';
 import dayjs from 'dayjs';
-import { apiService } from '../services/api';
-import type { Task, Employee, CreateTask } from '../services/api';
-import type { Dayjs } from 'dayjs';
+import { apiService, ApiError, createTaskSchema, queryKeys, queryTasks } from '../services/api';
+import type { Task, Employee, CreateTask, TaskListQuery, TaskSortField, TaskPriority } from '../services/api';
+import { TaskCard } from '../components/TaskCard';
+import { TaskBoard } from '../components/TaskBoard';
+import { TaskFormDialog } from '../components/TaskFormDialog';
+import { TaskDetailDrawer } from '../components/TaskDetailDrawer';
+import { DependencyGraphDialog } from '../components/DependencyGraphDialog';
+import { StatusNoteDialog } from '../components/StatusNoteDialog';
+import { SortControl } from '../components/SortControl';
+import { ListPagination } from '../components/ListPagination';
+import { useListQuery } from '../hooks/useListQuery';
+import { useQuery } from '../hooks/useQuery';
+import { useTaskBlockers, useTaskDependencies } from '../hooks/useTaskDependencies';
+import { TaskFilterBar } from '../components/TaskFilterBar';
+import { RequirePermission } from '../components/RequirePermission';
+import { TaskBatchToolbar } from '../components/TaskBatchToolbar';
+import { BatchProgressDialog } from '../components/BatchProgressDialog';
+import { CsvImportDialog } from '../components/CsvImportDialog';
+import type { CsvImportField, ParsedCsvRow } from '../components/CsvImportDialog';
+import { runBatch } from '../utils/batch';
+import { getSchemaErrors } from '../utils/validation';
+import { toCsv, downloadCsv } from '../utils/csv';
+import type { BatchItemResult } from '../utils/batch';
+import { useNotification } from '../hooks/useNotification';
+import { useCustomFields } from '../hooks/useCustomFields';
+import {
+  TASK_STATUSES,
+  STATUS_LABELS,
+  TASK_PRIORITIES,
+  PRIORITY_LABELS,
+  getOpenChecklistWarning,
+  collectLabels
+} from '../utils/taskUtils';
+import { getNextOccurrence } from '../utils/recurrence';
+import { buildDependencyIndex, getOpenBlockers, getStatusChangeBlockedMessage } from '../utils/dependencies';
+import { EMPTY_TASK_FILTERS, filterTasks, hasActiveFilters, parseQuickFilters } from '../utils/taskFilters';
+import type { TaskFilters } from '../utils/taskFilters';
+
+type TaskView = 'grid' | 'board';
+
+const DEFAULT_TASK_QUERY: TaskListQuery = {
+  page: 1,
+  page_size: 12,
+  sort_by: 'created_at',
+  sort_dir: 'desc',
+};
+
+// List filters sent to the server; clearing filters keeps the sort order
+const FILTER_PARAMS: (keyof TaskListQuery)[] = ['status', 'priority', 'employee_id', 'due_from', 'due_to'];
 
-interface TaskFormData {
-  title: string;
-  description: string;
-  employee_id: number | '';
-  due_date: Dayjs | null;
-}
+// Quick filters run in the browser but stay in the URL so dashboard links can open them
+const CLIENT_QUERY_PARAMS = ['quick'];
+
+const NO_TASKS: Task[] = [];
+const NO_EMPLOYEES: Employee[] = [];
+
+const TASK_SORT_FIELDS: { value: TaskSortField; label: string }[] = [
+  { value: 'created_at', label: 'Date Created' },
+  { value: 'updated_at', label: 'Last Updated' },
+  { value: 'due_date', label: 'Due Date' },
+  { value: 'title', label: 'Title' },
+  { value: 'status', label: 'Status' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'labels', label: 'Label' },
+];
+
+const TASK_CSV_FIELDS: CsvImportField[] = [
+  { key: 'title', label: 'Title', required: true },
+  { key: 'description', label: 'Description' },
+  { key: 'due_date', label: 'Due Date' },
+  { key: 'assignee', label: 'Assignee (ID, email or name)' },
+];
 
 export const TaskPage: React.FC = () => {
-  const [tasks, setTasks] = useState<Task[]>([]);
-  const [employees, setEmployees] = useState<Employee[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState('');
+  const navigate = useNavigate();
+  const { notify, notifySuccess, notifyError } = useNotification();
+  const [query, updateQuery] = useListQuery(DEFAULT_TASK_QUERY, CLIENT_QUERY_PARAMS);
+  const taskQuery = useQuery(queryKeys.taskList(query), () => apiService.listTasks(query), { keepPreviousData: true });
+  const employeeQuery = useQuery(queryKeys.employees(), () => apiService.getEmployees());
+  const tasks = taskQuery.data?.items ?? NO_TASKS;
+  const totalTasks = taskQuery.data?.total ?? 0;
+  const employees = employeeQuery.data ?? NO_EMPLOYEES;
+  const error = taskQuery.error
+    ? ApiError.from(taskQuery.error).toUserMessage('Failed to fetch tasks')
+    : employeeQuery.error
+      ? ApiError.from(employeeQuery.error).toUserMessage('Failed to fetch employees')
+      : '';
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [facetFilters, setFacetFilters] = useState<TaskFilters>(EMPTY_TASK_FILTERS);
+  // Read from the URL on every render so dashboard links and back navigation always apply them
+  const quickParam = searchParams.get('quick');
+  const filters = useMemo(
+    () => ({ ...facetFilters, quick: parseQuickFilters(quickParam) }),
+    [facetFilters, quickParam]
+  );
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
-  const [formData, setFormData] = useState<TaskFormData>({
-    title: '',
-    description: '',
-    employee_id: '',
-    due_date: null,
-  });
-  const [formErrors, setFormErrors] = useState<Partial<Record<keyof TaskFormData, string>>>({});
-  const [submitting, setSubmitting] = useState(false);
-
-  useEffect(() => {
-    Promise.all([fetchTasks(), fetchEmployees()]);
-  }, []);
-
-  const fetchTasks = async () => {
+  const viewStorageKey = `taskView:${apiService.getCurrentUsername() ?? 'default'}`;
+  const [view, setView] = useState<TaskView>(
+    () => (localStorage.getItem(viewStorageKey) as TaskView | null) || 'grid'
+  );
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [importOpen, setImportOpen] = useState(false);
+  const { fields: customFields, loading: customFieldsLoading } = useCustomFields();
+  const [batch, setBatch] = useState<{ title: string; results: BatchItemResult<Task>[] } | null>(null);
+  const [statusChange, setStatusChange] = useState<{ task: Task; status: Task['status'] } | null>(null);
+  const [detailTask, setDetailTask] = useState<Task | null>(null);
+  const [dependencyTask, setDependencyTask] = useState<Task | null>(null);
+  // Selected tasks stay selected across pages, but a filter change drops them since they may no longer match
+  const selectionScope = JSON.stringify([filters, { ...query, page: undefined, page_size: undefined }]);
+  const [selectedScope, setSelectedScope] = useState(selectionScope);
+  if (selectedScope !== selectionScope) {
+    setSelectedScope(selectionScope);
+    setSelectedIds(new Set());
+  }
+  // Filter bar facets run in the browser, so only while one is set is every task loaded; they then search
+  // every task matching the query and the page is cut from those matches instead of coming from the server
+  const facetsActive = hasActiveFilters(filters);
+  const {
+    tasks: allTasks,
+    loading: allTasksLoading,
+    index: dependencyIndex,
+    tasksById,
+  } = useTaskDependencies({ enabled: facetsActive || dependencyTask !== null });
+  const facetMatches = useMemo(
+    () => facetsActive ? filterTasks(queryTasks(allTasks, query), filters, employees) : null,
+    [facetsActive, allTasks, query, filters, employees]
+  );
+  const filteredTasks = useMemo(() => {
+    if (!facetMatches) return tasks;
+    const page = query.page ?? 1;
+    const pageSize = query.page_size ?? 12;
+    return facetMatches.slice((page - 1) * pageSize, page * pageSize);
+  }, [facetMatches, tasks, query.page, query.page_size]);
+  const matchingCount = facetMatches ? facetMatches.length : totalTasks;
+  const filtersActive = facetsActive || FILTER_PARAMS.some(key => query[key] !== undefined);
+  const labels = useMemo(() => collectLabels([...tasks, ...allTasks]), [tasks, allTasks]);
+  const loading = taskQuery.loading || employeeQuery.loading || (facetsActive && allTasksLoading);
+  // Blockers of the tasks shown are fetched by id unless every task is loaded anyway
+  const getBlockers = useTaskBlockers(filteredTasks, allTasks);
+  // Follow cache updates while the drawer is open, but keep it open if the task leaves the page
+  const openTask = detailTask && (filteredTasks.find(t => t.id === detailTask.id) ?? detailTask);
+
+  const setTasks = (update: (items: Task[]) => Task[]) =>
+    taskQuery.setData(page => ({ ...page, items: update(page.items) }));
+
+  const handleCreateTask = () => {
+    setEditingTask(null);
+    setDialogOpen(true);
+  };
+
+  const handleEditTask = (task: Task) => {
+    setEditingTask(task);
+    setDialogOpen(true);
+  };
+
+  const handleDeleteTask = async (task: Task) => {
+    if (!window.confirm(`Are you sure you want to delete "${task.title}"?`)) {
+      return;
+    }
+
     try {
-      const data = await apiService.getTasks();
-      setTasks(data);
-      setError('');
-    } catch (error: any) {
-      setError('Failed to fetch tasks');
-      console.error('Error fetching tasks:', error);
+      await apiService.deleteTask(task.id);
+      notifySuccess('Task deleted');
+    } catch (error) {
+      notifyError(error, 'Failed to delete task');
     }
   };
 
-  const fetchEmployees = async () => {
+  const handleStatusUpdate = (task: Task, newStatus: Task['status']) => {
+    setStatusChange({ task, status: newStatus });
+  };
+
+  const handleConfirmStatus = async (note: string) => {
+    if (!statusChange) return;
+    const { task, status } = statusChange;
+    setStatusChange(null);
     try {
-      setLoading(true);
-      const data = await apiService.getEmployees();
-      setEmployees(data);
-    } catch (error: any) {
-      setError('Failed to fetch employees');
-      console.error('Error fetching employees:', error);
-    } finally {
-      setLoading(false);
+      // Completing an occurrence of a recurring task also creates the next one
+      await apiService.updateTask(task.id, { status, status_note: note || undefined });
+      const next = status === 'completed' ? getNextOccurrence(task) : null;
+      if (next) notifySuccess(`Next occurrence scheduled for ${dayjs(next.due_date).format('MMM DD, YYYY')}`);
+    } catch (error) {
+      notifyError(error, 'Failed to update task status');
     }
   };
 
-  const validateForm = (): boolean => {
-    const errors: Partial<Record<keyof TaskFormData, string>> = {};
+  const getStartBlockedMessage = (task: Task, newStatus: Task['status']) =>
+    getStatusChangeBlockedMessage(task, newStatus, getBlockers(task));
 
-    if (!formData.title.trim()) errors.title = 'Title is required';
-    
-    setFormErrors(errors);
-    return Object.keys(errors).length === 0;
+  const handleBoardMove = async (task: Task, newStatus: Task['status']) => {
+    const blockedMessage = getStartBlockedMessage(task, newStatus);
+    if (blockedMessage) {
+      notify(`"${task.title}" cannot start yet. ${blockedMessage}`, 'warning');
+      return;
+    }
+    const checklistWarning = newStatus === 'completed' ? getOpenChecklistWarning(task) : null;
+    if (checklistWarning && !window.confirm(`${checklistWarning} Complete it anyway?`)) return;
+    // Move the card right away and put it back if the server rejects the change
+    setTasks(prev => prev.map(t => t.id === task.id ? { ...t, status: newStatus } : t));
+    try {
+      // The cache already shows the new status, so the old one is passed for recurrence
+      await apiService.updateTask(task.id, { status: newStatus }, { previousStatus: task.status });
+    } catch (error) {
+      setTasks(prev => prev.map(t => t.id === task.id ? task : t));
+      notifyError(error, `Failed to move "${task.title}" to ${newStatus}`);
+    }
   };
 
-  const getStatusColor = (status: Task['status']): 'default' | 'warning' | 'info' | 'success' => {
-    switch (status) {
-      case 'pending': return 'default';
-      case 'ongoing': return 'info';
-      case 'completed': return 'success';
-    }
+  const handleViewChange = (_: React.MouseEvent<HTMLElement>, newView: TaskView | null) => {
+    if (!newView) return;
+    setView(newView);
+    localStorage.setItem(viewStorageKey, newView);
+  };
+
+  const handleToggleSelectionMode = () => {
+    setSelectionMode(prev => !prev);
+    setSelectedIds(new Set());
   };
 
-  const getStatusIcon = (status: Task['status']) => {
-    switch (status) {
-      case 'pending': return <Schedule />;
-      case 'ongoing': return <PlayArrow />;
-      case 'completed': return <CheckCircle />;
+  const handleToggleSelect = (task: Task) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(task.id)) {
+        next.delete(task.id);
+      } else {
+        next.add(task.id);
+      }
+      return next;
+    });
+  };
+
+  // Every task matching the filters, across all pages; all tasks are fetched for it unless already loaded
+  const loadMatchingTasks = async () => facetMatches ?? queryTasks(await apiService.getTasks(), query);
+
+  const handleSelectAll = async () => {
+    try {
+      setSelectedIds(new Set((await loadMatchingTasks()).map(t => t.id)));
+    } catch (error) {
+      notifyError(error, 'Failed to select tasks');
     }
   };
 
-  const handleCreateTask = () => {
-    setEditingTask(null);
-    setFormData({ title: '', description: '', employee_id: '', due_date: null });
-    setFormErrors({});
-    setDialogOpen(true);
+  // The selection can span pages; selected tasks that are not at hand are fetched by id
+  const loadSelectedTasks = async (): Promise<Task[]> => {
+    const known = new Map([...allTasks, ...filteredTasks].map(t => [t.id, t]));
+    const missing = [...selectedIds].filter(id => !known.has(id));
+    const fetched = missing.length > 0 ? await apiService.getTasksById(missing) : [];
+    fetched.forEach(task => known.set(task.id, task));
+    return [...selectedIds].map(id => known.get(id)).filter((task): task is Task => !!task);
   };
 
-  const handleEditTask = (task: Task) => {
-    setEditingTask(task);
-    setFormData({
-      title: task.title,
-      description: task.description || '',
-      employee_id: task.employee_id || '',
-      due_date: task.due_date ? dayjs(task.due_date) : null,
+  // Open blockers of tasks that may be on other pages, fetched by id where they are not at hand
+  const loadBlockers = async (targets: Task[]) => {
+    const known = new Map([...allTasks, ...filteredTasks, ...targets].map(t => [t.id, t]));
+    const missing = [...new Set(targets.flatMap(t => t.blocked_by ?? []))].filter(id => !known.has(id));
+    const fetched = missing.length > 0 ? await apiService.getTasksById(missing) : [];
+    fetched.forEach(task => known.set(task.id, task));
+    const index = buildDependencyIndex([...known.values()]);
+    return (task: Task) => getOpenBlockers(task, index, known);
+  };
+
+  // Applies an action to the selected tasks; the action resolves to the updated task, or null once deleted
+  const runBatchAction = async (title: string, targets: Task[], action: (task: Task) => Promise<Task | null>) => {
+    if (targets.length === 0) return;
+
+    setBatch({ title, results: targets.map(item => ({ item, status: 'pending' })) });
+    const results = await runBatch(targets, action, (index, result) => {
+      setBatch(prev => prev && { ...prev, results: prev.results.map((r, i) => i === index ? result : r) });
     });
-    setFormErrors({});
-    setDialogOpen(true);
+
+    // Failed items stay selected so they can be retried
+    setSelectedIds(new Set(results.filter(r => r.status === 'error').map(r => r.item.id)));
   };
 
-  const handleDeleteTask = async (task: Task) => {
-    if (!window.confirm(`Are you sure you want to delete "${task.title}"?`)) {
+  const handleBatchStatus = async (status: Task['status']) => {
+    let targets: Task[];
+    let getTargetBlockers: (task: Task) => Task[];
+    try {
+      targets = await loadSelectedTasks();
+      getTargetBlockers = await loadBlockers(targets);
+    } catch (error) {
+      notifyError(error, 'Failed to load the selected tasks');
       return;
     }
-
-    try {
-      await apiService.deleteTask(task.id);
-      setTasks(tasks.filter(t => t.id !== task.id));
-    } catch (error: any) {
-      setError(error.response?.data?.detail || 'Failed to delete task');
+    const withOpenItems = status === 'completed'
+      ? targets.filter(t => getOpenChecklistWarning(t)).length
+      : 0;
+    if (withOpenItems > 0
+      && !window.confirm(`${withOpenItems} selected task${withOpenItems === 1 ? ' has' : 's have'} open checklist items. Complete anyway?`)) {
+      return;
     }
+    return runBatchAction(`Set status to ${STATUS_LABELS[status]}`, targets, async task => {
+      const blockedMessage = getStatusChangeBlockedMessage(task, status, getTargetBlockers(task));
+      if (blockedMessage) throw new Error(blockedMessage);
+      return apiService.updateTask(task.id, { status });
+    });
   };
 
-  const handleStatusUpdate = async (task: Task, newStatus: Task['status']) => {
+  // Runs a batch action on the selected tasks once they are loaded
+  const runOnSelection = async (title: string, action: (task: Task) => Promise<Task | null>) => {
     try {
-      const updated = await apiService.updateTask(task.id, { status: newStatus });
-      setTasks(tasks.map(t => t.id === task.id ? updated : t));
-    } catch (error: any) {
-      setError(error.response?.data?.detail || 'Failed to update task status');
+      return runBatchAction(title, await loadSelectedTasks(), action);
+    } catch (error) {
+      notifyError(error, 'Failed to load the selected tasks');
     }
   };
 
-  const handleSubmit = async () => {
-    if (!validateForm()) return;
+  const handleBatchReassign = (employeeId: number) => {
+    const employee = employees.find(e => e.id === employeeId);
+    return runOnSelection(`Reassign to ${employee?.name ?? 'employee'}`, task =>
+      apiService.updateTask(task.id, { employee_id: employeeId }));
+  };
+
+  const handleBatchShiftDueDate = (days: number) =>
+    runOnSelection(`Shift due date by ${days} day${Math.abs(days) === 1 ? '' : 's'}`, async task => {
+      if (!task.due_date) throw new Error('No due date to shift');
+      return apiService.updateTask(task.id, {
+        due_date: dayjs(task.due_date).add(days, 'day').toISOString(),
+      });
+    });
 
-    setSubmitting(true);
+  const handleBatchDelete = async () => {
+    let targets: Task[];
     try {
-      const taskData: CreateTask = {
-        title: formData.title,
-        description: formData.description || undefined,
-        employee_id: formData.employee_id || undefined,
-        due_date: formData.due_date ? formData.due_date.toISOString() : undefined,
-      };
-
-      if (editingTask) {
-        const updated = await apiService.updateTask(editingTask.id, taskData);
-        setTasks(tasks.map(t => t.id === editingTask.id ? updated : t));
-      } else {
-        const newTask = await apiService.createTask(taskData);
-        setTasks([...tasks, newTask]);
-      }
-      setDialogOpen(false);
-      setError('');
-    } catch (error: any) {
-      setError(error.response?.data?.detail || 'Failed to save task');
-    } finally {
-      setSubmitting(false);
+      targets = await loadSelectedTasks();
+    } catch (error) {
+      notifyError(error, 'Failed to load the selected tasks');
+      return;
     }
+    // Counted from the tasks that will actually be deleted; ones deleted elsewhere meanwhile are left out
+    if (!window.confirm(`Are you sure you want to delete ${targets.length} selected task${targets.length === 1 ? '' : 's'}?`)) {
+      return;
+    }
+    return runBatchAction('Delete tasks', targets, async task => {
+      await apiService.deleteTask(task.id);
+      return null;
+    });
   };
 
-  const handleInputChange = (field: keyof TaskFormData, value: any) => {
-    setFormData(prev => ({ ...prev, [field]: value }));
-    if (formErrors[field]) {
-      setFormErrors(prev => ({ ...prev, [field]: undefined }));
+  // Every matching task, not just the current page; all tasks are fetched for it unless already loaded
+  const handleExport = async () => {
+    let matching: Task[];
+    try {
+      matching = await loadMatchingTasks();
+    } catch (error) {
+      notifyError(error, 'Failed to export tasks');
+      return;
     }
+    const csv = toCsv(
+      ['id', 'title', 'description', 'status', 'priority', 'labels', 'due_date', 'employee_id', 'employee_name', 'created_at', 'updated_at'],
+      matching.map(task => [
+        task.id,
+        task.title,
+        task.description,
+        task.status,
+        task.priority,
+        task.labels?.map(label => label.name).join('; '),
+        task.due_date ? dayjs(task.due_date).toISOString() : '',
+        task.employee_id,
+        task.employee?.name ?? employees.find(e => e.id === task.employee_id)?.name,
+        dayjs(task.created_at).toISOString(),
+        dayjs(task.updated_at).toISOString(),
+      ])
+    );
+    downloadCsv(`tasks-${dayjs().format('YYYY-MM-DD')}.csv`, csv);
   };
 
-  const isOverdue = (dueDate: string) => {
-    return dayjs(dueDate).isBefore(dayjs()) && dayjs(dueDate).isValid();
+  // Custom fields get a column each, keyed like their validation errors so the preview marks the right cell
+  const importFields = useMemo<CsvImportField[]>(() => [
+    ...TASK_CSV_FIELDS,
+    ...customFields.map(field => ({ key: `custom_fields.${field.key}`, label: field.label, required: field.required })),
+  ], [customFields]);
+
+  const parseTaskRow = useCallback((values: Record<string, string>): ParsedCsvRow<CreateTask> => {
+    const assignee = values.assignee.toLowerCase();
+    const employee = assignee
+      ? employees.find(e => String(e.id) === assignee || e.email.toLowerCase() === assignee || e.name.toLowerCase() === assignee)
+      : undefined;
+    const dueDate = dayjs(values.due_date);
+    const record: CreateTask = {
+      title: values.title,
+      description: values.description || undefined,
+      // Unparseable dates are passed through as text so the schema reports them
+      due_date: values.due_date && dueDate.isValid() ? dueDate.toISOString() : values.due_date || undefined,
+      employee_id: employee?.id,
+    };
+    const customValues: NonNullable<CreateTask['custom_fields']> = {};
+    customFields.forEach(field => {
+      const value = values[`custom_fields.${field.key}`];
+      if (!value) return;
+      const date = dayjs(value);
+      // Values that do not parse are passed through as text so the schema reports them
+      customValues[field.key] = field.type === 'number' && !Number.isNaN(Number(value))
+        ? Number(value)
+        : field.type === 'date' && date.isValid() ? date.toISOString() : value;
+    });
+    if (Object.keys(customValues).length > 0) record.custom_fields = customValues;
+
+    const errors = getSchemaErrors(createTaskSchema, record, { customFields }) as Record<string, string>;
+    if (assignee && !employee) errors.assignee = `Unknown assignee "${values.assignee}"`;
+    return { record, errors };
+  }, [employees, customFields]);
+
+  const handleImported = (created: Task[]) => {
+    notifySuccess(`${created.length} task${created.length === 1 ? '' : 's'} imported`);
+  };
+
+  const handleFiltersChange = (next: TaskFilters) => {
+    setFacetFilters(next);
+    setSearchParams(prev => {
+      const params = new URLSearchParams(prev);
+      if (next.quick.length > 0) {
+        params.set('quick', next.quick.join(','));
+      } else {
+        params.delete('quick');
+      }
+      params.delete('page');
+      return params;
+    }, { replace: true });
+  };
+
+  const handleClearFilters = () => {
+    setFacetFilters(EMPTY_TASK_FILTERS);
+    // One update, since a second one in the same event would start again from the old URL
+    setSearchParams(prev => {
+      const params = new URLSearchParams(prev);
+      ['quick', 'page', ...FILTER_PARAMS].forEach(key => params.delete(key));
+      return params;
+    }, { replace: true });
   };
 
   if (loading) {
@@ -200,209 +466,281 @@ export const TaskPage: React.FC = () => {
         <Typography variant="h4" component="h1">
           Tasks
         </Typography>
-        <Button
-          variant="contained"
-          startIcon={<Add />}
-          onClick={handleCreateTask}
-        >
-          Add Task
-        </Button>
+        <Stack direction="row" spacing={2} alignItems="center" flexWrap="wrap" useFlexGap justifyContent="flex-end">
+          <Button
+            variant={selectionMode ? 'contained' : 'outlined'}
+            startIcon={<Checklist />}
+            onClick={handleToggleSelectionMode}
+          >
+            {selectionMode ? 'Done' : 'Select'}
+          </Button>
+          <ToggleButtonGroup
+            value={view}
+            exclusive
+            onChange={handleViewChange}
+            size="small"
+            aria-label="task view"
+          >
+            <ToggleButton value="grid" aria-label="grid view" title="Grid view">
+              <GridView />
+            </ToggleButton>
+            <ToggleButton value="board" aria-label="board view" title="Board view">
+              <ViewKanban />
+            </ToggleButton>
+          </ToggleButtonGroup>
+          <Button
+            variant="outlined"
+            startIcon={<CalendarMonth />}
+            onClick={() => navigate('/tasks/calendar')}
+          >
+            Calendar
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<FileDownload />}
+            onClick={handleExport}
+            disabled={matchingCount === 0}
+          >
+            Export CSV
+          </Button>
+          <RequirePermission permission="tasks:create">
+            <Button
+              variant="outlined"
+              startIcon={<FileUpload />}
+              onClick={() => setImportOpen(true)}
+            >
+              Import CSV
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<Add />}
+              onClick={handleCreateTask}
+            >
+              Add Task
+            </Button>
+          </RequirePermission>
+        </Stack>
       </Box>
 
+      <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} mb={3} flexWrap="wrap" useFlexGap>
+        <FormControl size="small" sx={{ minWidth: 140 }}>
+          <InputLabel>Status</InputLabel>
+          <Select
+            value={query.status ?? ''}
+            onChange={(e) => updateQuery({ status: (e.target.value || undefined) as Task['status'] | undefined })}
+            label="Status"
+          >
+            <MenuItem value="">
+              <em>All</em>
+            </MenuItem>
+            {TASK_STATUSES.map((status) => (
+              <MenuItem key={status} value={status}>
+                {STATUS_LABELS[status]}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ minWidth: 140 }}>
+          <InputLabel>Priority</InputLabel>
+          <Select
+            value={query.priority ?? ''}
+            onChange={(e) => updateQuery({ priority: (e.target.value || undefined) as TaskPriority | undefined })}
+            label="Priority"
+          >
+            <MenuItem value="">
+              <em>All</em>
+            </MenuItem>
+            {[...TASK_PRIORITIES].reverse().map((priority) => (
+              <MenuItem key={priority} value={priority}>
+                {PRIORITY_LABELS[priority]}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ minWidth: 180 }}>
+          <InputLabel>Employee</InputLabel>
+          <Select
+            value={query.employee_id ?? ''}
+            onChange={(e) => updateQuery({ employee_id: Number(e.target.value) || undefined })}
+            label="Employee"
+          >
+            <MenuItem value="">
+              <em>All</em>
+            </MenuItem>
+            {employees.map((employee) => (
+              <MenuItem key={employee.id} value={employee.id}>
+                {employee.name}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <DatePicker
+          label="Due from"
+          value={query.due_from ? dayjs(query.due_from) : null}
+          onChange={(date) => updateQuery({ due_from: date?.isValid() ? date.startOf('day').toISOString() : undefined })}
+          slotProps={{ textField: { size: 'small' }, field: { clearable: true } }}
+        />
+        <DatePicker
+          label="Due to"
+          value={query.due_to ? dayjs(query.due_to) : null}
+          onChange={(date) => updateQuery({ due_to: date?.isValid() ? date.endOf('day').toISOString() : undefined })}
+          slotProps={{ textField: { size: 'small' }, field: { clearable: true } }}
+        />
+        <SortControl
+          fields={TASK_SORT_FIELDS}
+          sortBy={query.sort_by ?? 'created_at'}
+          sortDir={query.sort_dir ?? 'desc'}
+          onChange={(sort_by, sort_dir) => updateQuery({ sort_by, sort_dir })}
+        />
+      </Stack>
+
+      <TaskFilterBar
+        filters={filters}
+        onChange={handleFiltersChange}
+        employees={employees}
+        labels={labels}
+        shownCount={matchingCount}
+        totalCount={totalTasks}
+      />
+
+      {selectionMode && (
+        <TaskBatchToolbar
+          selectedCount={selectedIds.size}
+          filteredCount={matchingCount}
+          employees={employees}
+          onSelectAll={handleSelectAll}
+          onClearSelection={() => setSelectedIds(new Set())}
+          onChangeStatus={handleBatchStatus}
+          onReassign={handleBatchReassign}
+          onShiftDueDate={handleBatchShiftDueDate}
+          onDelete={handleBatchDelete}
+        />
+      )}
+
       {error && (
         <Alert severity="error" sx={{ mb: 3 }}>
           {error}
         </Alert>
       )}
 
-      <Box 
-        display="grid" 
-        gridTemplateColumns="repeat(auto-fill, minmax(350px, 1fr))" 
-        gap={3}
-      >
-        {tasks.map((task) => (
-          <Card key={task.id}>
-            <CardContent>
-              <Box display="flex" justifyContent="space-between" alignItems="flex-start" mb={1}>
-                <Typography variant="h6" component="h2" flex={1}>
-                  {task.title}
-                </Typography>
-                <Chip
-                  label={task.status}
-                  color={getStatusColor(task.status)}
-                  icon={getStatusIcon(task.status)}
-                  size="small"
-                />
-              </Box>
-              
-              {task.description && (
-                <Typography variant="body2" color="text.secondary" mb={2}>
-                  {task.description}
-                </Typography>
-              )}
-              
-              {task.employee && (
-                <Box display="flex" alignItems="center" mb={1}>
-                  <Person sx={{ mr: 1, color: 'text.secondary' }} />
-                  <Typography variant="body2" color="text.secondary">
-                    {task.employee.name} ({task.employee.department})
-                  </Typography>
-                </Box>
-              )}
-              
-              {task.due_date && (
-                <Box display="flex" alignItems="center" mb={2}>
-                  <Schedule sx={{ mr: 1, color: isOverdue(task.due_date) ? 'error.main' : 'text.secondary' }} />
-                  <Typography 
-                    variant="body2" 
-                    color={isOverdue(task.due_date) ? 'error.main' : 'text.secondary'}
-                  >
-                    Due: {dayjs(task.due_date).format('MMM DD, YYYY HH:mm')}
-                    {isOverdue(task.due_date) && ' (Overdue)'}
-                  </Typography>
-                </Box>
-              )}
-
-              {task.status !== 'completed' && (
-                <Stack direction="row" spacing={1} mb={2}>
-                  {task.status === 'pending' && (
-                    <Button
-                      size="small"
-                      variant="outlined"
-                      onClick={() => handleStatusUpdate(task, 'ongoing')}
-                    >
-                      Start
-                    </Button>
-                  )}
-                  {task.status === 'ongoing' && (
-                    <Button
-                      size="small"
-                      variant="contained"
-                      color="success"
-                      onClick={() => handleStatusUpdate(task, 'completed')}
-                    >
-                      Complete
-                    </Button>
-                  )}
-                  {task.status === 'ongoing' && (
-                    <Button
-                      size="small"
-                      variant="outlined"
-                      onClick={() => handleStatusUpdate(task, 'pending')}
-                    >
-                      Reset
-                    </Button>
-                  )}
-                </Stack>
-              )}
-            </CardContent>
-            
-            <CardActions>
-              <IconButton
-                onClick={() => handleEditTask(task)}
-                color="primary"
-                title="Edit Task"
-              >
-                <Edit />
-              </IconButton>
-              <IconButton
-                onClick={() => handleDeleteTask(task)}
-                color="error"
-                title="Delete Task"
-              >
-                <Delete />
-              </IconButton>
-            </CardActions>
-          </Card>
-        ))}
-      </Box>
-
-      {tasks.length === 0 && !loading && (
-        <Box textAlign="center" mt={4}>
-          <Typography variant="h6" color="text.secondary">
-            No tasks found
-          </Typography>
-          <Typography variant="body2" color="text.secondary" mt={1}>
-            Click "Add Task" to create your first task
-          </Typography>
+      {view === 'board' ? (
+        <TaskBoard
+          tasks={filteredTasks}
+          onMove={handleBoardMove}
+          onEdit={handleEditTask}
+          onDelete={handleDeleteTask}
+          onStatusUpdate={handleStatusUpdate}
+          onOpen={setDetailTask}
+          onShowDependencies={setDependencyTask}
+          getBlockers={getBlockers}
+          selectedIds={selectedIds}
+          onToggleSelect={selectionMode ? handleToggleSelect : undefined}
+        />
+      ) : (
+        <Box 
+          display="grid" 
+          gridTemplateColumns="repeat(auto-fill, minmax(350px, 1fr))" 
+          gap={3}
+        >
+          {filteredTasks.map((task) => (
+            <TaskCard
+              key={task.id}
+              task={task}
+              onEdit={handleEditTask}
+              onDelete={handleDeleteTask}
+              onStatusUpdate={handleStatusUpdate}
+              onOpen={setDetailTask}
+              onShowDependencies={setDependencyTask}
+              blockers={getBlockers(task)}
+              selected={selectedIds.has(task.id)}
+              onToggleSelect={selectionMode ? handleToggleSelect : undefined}
+            />
+          ))}
         </Box>
       )}
 
-      {/* Create/Edit Task Dialog */}
-      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth>
-        <DialogTitle>
-          {editingTask ? 'Edit Task' : 'Add New Task'}
-        </DialogTitle>
-        
-        <DialogContent>
-          <TextField
-            autoFocus
-            margin="dense"
-            label="Task Title"
-            fullWidth
-            variant="outlined"
-            value={formData.title}
-            onChange={(e) => handleInputChange('title', e.target.value)}
-            error={!!formErrors.title}
-            helperText={formErrors.title}
-            disabled={submitting}
-          />
-          
-          <TextField
-            margin="dense"
-            label="Description"
-            fullWidth
-            multiline
-            rows={3}
-            variant="outlined"
-            value={formData.description}
-            onChange={(e) => handleInputChange('description', e.target.value)}
-            disabled={submitting}
-          />
-          
-          <FormControl fullWidth margin="dense" variant="outlined">
-            <InputLabel>Assign to Employee</InputLabel>
-            <Select
-              value={formData.employee_id}
-              onChange={(e) => handleInputChange('employee_id', e.target.value)}
-              label="Assign to Employee"
-              disabled={submitting}
-            >
-              <MenuItem value="">
-                <em>Unassigned</em>
-              </MenuItem>
-              {employees.map((employee) => (
-                <MenuItem key={employee.id} value={employee.id}>
-                  {employee.name} - {employee.position}
-                </MenuItem>
-              ))}
-            </Select>
-          </FormControl>
-          
-          <DateTimePicker
-            label="Due Date"
-            value={formData.due_date}
-            onChange={(date) => handleInputChange('due_date', date)}
-            disabled={submitting}
-            slotProps={{
-              textField: {
-                fullWidth: true,
-                margin: 'dense',
-                variant: 'outlined',
-              },
-            }}
-          />
-        </DialogContent>
-        
-        <DialogActions>
-          <Button onClick={() => setDialogOpen(false)} disabled={submitting}>
-            Cancel
-          </Button>
-          <Button onClick={handleSubmit} variant="contained" disabled={submitting}>
-            {submitting ? <CircularProgress size={24} /> : editingTask ? 'Update' : 'Create'}
-          </Button>
-        </DialogActions>
-      </Dialog>
+      {matchingCount > 0 && (
+        <ListPagination
+          total={matchingCount}
+          page={query.page ?? 1}
+          pageSize={query.page_size ?? 12}
+          onChange={(page, page_size) => updateQuery({ page, page_size })}
+        />
+      )}
+
+      {matchingCount === 0 && !error && (
+        filtersActive ? (
+          <Box textAlign="center" mt={4}>
+            <Typography variant="h6" color="text.secondary">
+              No tasks match these filters
+            </Typography>
+            <Button sx={{ mt: 1 }} onClick={handleClearFilters}>
+              Clear filters
+            </Button>
+          </Box>
+        ) : (
+          <Box textAlign="center" mt={4}>
+            <Typography variant="h6" color="text.secondary">
+              No tasks found
+            </Typography>
+            <RequirePermission permission="tasks:create">
+              <Typography variant="body2" color="text.secondary" mt={1}>
+                Click "Add Task" to create your first task
+              </Typography>
+            </RequirePermission>
+          </Box>
+        )
+      )}
+
+      {batch && (
+        <BatchProgressDialog
+          open
+          title={batch.title}
+          results={batch.results}
+          getLabel={(task) => task.title}
+          onClose={() => setBatch(null)}
+        />
+      )}
+
+      <CsvImportDialog
+        open={importOpen && !customFieldsLoading}
+        title="Import Tasks"
+        fields={importFields}
+        parseRow={parseTaskRow}
+        create={(record) => apiService.createTask(record)}
+        onImported={handleImported}
+        onClose={() => setImportOpen(false)}
+        reportFilename="task-import-rejected.csv"
+      />
+
+      <TaskFormDialog
+        open={dialogOpen}
+        task={editingTask}
+        employees={employees}
+        labelSuggestions={labels}
+        onClose={() => setDialogOpen(false)}
+      />
+
+      <StatusNoteDialog
+        change={statusChange}
+        onConfirm={handleConfirmStatus}
+        onCancel={() => setStatusChange(null)}
+      />
+
+      <TaskDetailDrawer
+        task={openTask}
+        employees={employees}
+        onClose={() => setDetailTask(null)}
+      />
+
+      {dependencyTask && !allTasksLoading && (
+        <DependencyGraphDialog
+          task={dependencyTask}
+          index={dependencyIndex}
+          tasksById={tasksById}
+          onClose={() => setDependencyTask(null)}
+        />
+      )}
     </LocalizationProvider>
   );
 };
\ No newline at end of file
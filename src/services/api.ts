@@ -1,11 +1,24 @@
 import axios from 'axios';
-import type { AxiosResponse } from 'axios';
-
-const API_BASE_URL = 'http://localhost:8000';
+import * as yup from 'yup';
+import dayjs from 'dayjs';
+import type { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { decodeToken } from '../utils/token';
+import { getNextOccurrence, getSeriesId } from '../utils/recurrence';
+import { findDependencyCycle, formatDependencyCycle } from '../utils/dependencies';
+import type { DependencyIndex } from '../utils/dependencies';
+import { getConfig } from '../config';
+import { queryCache } from './queryCache';
+import { offlineSync } from './offlineSync';
+import { readSnapshot, readSnapshotKeys, removeSnapshot, writeSnapshot } from './offlineStore';
+import { realtimeClient } from './realtime';
+import type { QueuedMutation, SyncResource } from './offlineSync';
+import type { RealtimeEvent } from './realtime';
+import type { AppConfig } from '../config';
 
 // Create axios instance
 const apiClient = axios.create({
-  baseURL: API_BASE_URL,
+  baseURL: getConfig().apiBaseUrl,
+  timeout: getConfig().apiTimeout,
   headers: {
     'Content-Type': 'application/json',
   },
@@ -20,22 +33,157 @@ apiClient.interceptors.request.use((config) => {
   return config;
 });
 
+// Requests that failed with 401, held until the user signs in again
+interface PendingRequest {
+  config: InternalAxiosRequestConfig;
+  resolve: (response: AxiosResponse) => void;
+  reject: (error: unknown) => void;
+}
+
+let pendingRequests: PendingRequest[] = [];
+let unauthorizedHandler: (() => void) | null = null;
+
+const getRefreshPath = () => `${getConfig().authTokenPath}/refresh`;
+
+// A 401 from the auth endpoints means bad credentials, not an expired session
+const isAuthRequest = (url?: string) =>
+  url === getConfig().authTokenPath || url === getRefreshPath();
+
+// Errors
+export type ApiErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'validation'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'server'
+  | 'unknown';
+
+// FastAPI reports 422 errors as a list of { loc, msg, type } entries
+interface ValidationErrorItem {
+  loc: (string | number)[];
+  msg: string;
+  type?: string;
+}
+
+const DEFAULT_ERROR_MESSAGES: Record<ApiErrorKind, string> = {
+  network: 'Unable to reach the server. Check your connection and try again.',
+  timeout: 'The server took too long to respond. Please try again.',
+  validation: 'Some fields are invalid.',
+  unauthorized: 'Your session has expired. Please sign in again.',
+  forbidden: 'You do not have permission to perform this action.',
+  not_found: 'The requested item was not found.',
+  conflict: 'This item was changed by someone else.',
+  server: 'The server encountered an error. Please try again later.',
+  unknown: 'Something went wrong.',
+};
+
+const kindFromStatus = (status: number): ApiErrorKind => {
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not_found';
+  if (status === 409 || status === 412) return 'conflict';
+  if (status === 400 || status === 422) return 'validation';
+  if (status >= 500) return 'server';
+  return 'unknown';
+};
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  // Message sent by the server, when it sent a readable one
+  readonly detail?: string;
+  // Validation messages keyed by the field name at the end of each `loc`
+  readonly fieldErrors: Record<string, string>;
+
+  constructor(
+    kind: ApiErrorKind,
+    options: { status?: number; detail?: string; fieldErrors?: Record<string, string>; cause?: unknown } = {}
+  ) {
+    super(options.detail ?? DEFAULT_ERROR_MESSAGES[kind], { cause: options.cause });
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = options.status;
+    this.detail = options.detail;
+    this.fieldErrors = options.fieldErrors ?? {};
+  }
+
+  static from(error: unknown): ApiError {
+    if (error instanceof ApiError) return error;
+    if (!axios.isAxiosError(error)) {
+      return new ApiError('unknown', { detail: error instanceof Error ? error.message : undefined, cause: error });
+    }
+
+    const axiosError = error as AxiosError<{ detail?: string | ValidationErrorItem[] }>;
+    if (axiosError.code === 'ECONNABORTED' || axiosError.code === 'ETIMEDOUT') {
+      return new ApiError('timeout', { cause: error });
+    }
+    if (!axiosError.response) {
+      return new ApiError('network', { cause: error });
+    }
+
+    const { status, data } = axiosError.response;
+    const detail = data?.detail;
+    if (Array.isArray(detail)) {
+      const fieldErrors: Record<string, string> = {};
+      detail.forEach(item => {
+        const field = item.loc[item.loc.length - 1];
+        if (field !== undefined && !fieldErrors[field]) fieldErrors[field] = item.msg;
+      });
+      return new ApiError('validation', { status, detail: detail[0]?.msg, fieldErrors, cause: error });
+    }
+
+    return new ApiError(kindFromStatus(status), {
+      status,
+      detail: typeof detail === 'string' ? detail : undefined,
+      cause: error,
+    });
+  }
+
+  // Prefer what the server said; otherwise explain connection problems, or fall back to the caller's message
+  toUserMessage(fallback: string): string {
+    if (this.detail) return this.detail;
+    if (this.kind === 'network' || this.kind === 'timeout') return this.message;
+    return fallback;
+  }
+}
+
+export const getErrorMessage = (error: unknown, fallback: string) =>
+  ApiError.from(error).toUserMessage(fallback);
+
+// Only a missing response means offline; a timeout may still have reached the server
+const isConnectionError = (error: unknown) => ApiError.from(error).kind === 'network';
+
 // Handle auth errors
 apiClient.interceptors.response.use(
   (response) => response,
   (error) => {
     if (error.response?.status === 401) {
+      if (isAuthRequest(error.config?.url)) {
+        return Promise.reject(ApiError.from(error));
+      }
+      if (unauthorizedHandler && error.config) {
+        return new Promise<AxiosResponse>((resolve, reject) => {
+          pendingRequests.push({ config: error.config, resolve, reject });
+          unauthorizedHandler?.();
+        });
+      }
       localStorage.removeItem('token');
       window.location.href = '/';
     }
-    return Promise.reject(error);
+    return Promise.reject(ApiError.from(error));
   }
 );
 
 // Types
+export type UserRole = 'admin' | 'manager' | 'viewer';
+
 export interface User {
   id: number;
   username: string;
+  role?: UserRole;
   created_at: string;
 }
 
@@ -44,11 +192,87 @@ export interface Employee {
   name: string;
   email: string;
   department: string;
+  // Department record the name belongs to; unset for free-text values entered before departments existed
+  department_id?: number;
   position: string;
+  // Employee this one reports to; unset at the top of the organization
+  manager_id?: number | null;
   created_at: string;
+  // Sent by backends that support edit conflict detection
+  updated_at?: string;
   tasks?: Task[];
 }
 
+export interface ChecklistItem {
+  // Assigned by the server; unsaved items have none
+  id?: number;
+  text: string;
+  done: boolean;
+  order: number;
+}
+
+export type TaskPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+export interface TaskLabel {
+  name: string;
+  // CSS color of the label chip, e.g. '#1976d2'
+  color: string;
+}
+
+export type CustomFieldType = 'text' | 'number' | 'select' | 'date';
+
+// Text, select and date (ISO string) values are strings; null clears a value
+export type CustomFieldValue = string | number | null;
+
+export interface CustomFieldDefinition {
+  id: number;
+  // Name under which tasks store the value in `custom_fields`; fixed once created
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  // Choices of a select field
+  options?: string[];
+  required?: boolean;
+}
+
+export interface CreateCustomField {
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  options?: string[];
+  required?: boolean;
+}
+
+export interface UpdateCustomField {
+  label?: string;
+  options?: string[];
+  required?: boolean;
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'custom';
+
+export type RecurrenceUnit = 'day' | 'week' | 'month' | 'year';
+
+export interface TaskRecurrence {
+  frequency: RecurrenceFrequency;
+  // Repeat every `interval` days, weeks or months; custom rules count in `unit`
+  interval: number;
+  // Weekly rules: days of the week, 0 (Sunday) to 6
+  weekdays?: number[];
+  // Monthly rules: day of the month, 1 to 31
+  month_day?: number;
+  unit?: RecurrenceUnit;
+  // The series ends after this date or after `count` occurrences
+  until?: string;
+  count?: number;
+}
+
+// Fields the next occurrence of a recurring task copies from the one before
+export type TaskSeriesField = 'title' | 'description' | 'employee_id' | 'department' | 'priority' | 'labels' | 'custom_fields' | 'checklist';
+
+// Series values of fields changed on a single occurrence; null stands for a value that was not set
+export type TaskSeriesDefaults = { [K in TaskSeriesField]?: CreateTask[K] | null };
+
 export interface Task {
   id: number;
   title: string;
@@ -56,9 +280,28 @@ export interface Task {
   status: 'pending' | 'ongoing' | 'completed';
   due_date?: string;
   employee_id?: number;
+  // Department the work belongs to, which may differ from the assignee's
+  department?: string;
   created_at: string;
   updated_at: string;
   employee?: Employee;
+  checklist?: ChecklistItem[];
+  priority?: TaskPriority;
+  labels?: TaskLabel[];
+  // Values keyed by custom field definition `key`
+  custom_fields?: Record<string, CustomFieldValue>;
+  recurrence?: TaskRecurrence | null;
+  // Id of the first task of a recurring series; the first task itself may leave it unset
+  series_id?: number;
+  // Position in the series, starting at 1
+  occurrence?: number;
+  // Due date the schedule gave this occurrence; the next one follows on from it even if this one was moved
+  scheduled_at?: string;
+  series_defaults?: TaskSeriesDefaults;
+  // Ids of the tasks that must be completed before this one can start
+  blocked_by?: number[];
+  // Ids of the tasks waiting for this one; the reverse side of their `blocked_by`
+  blocks?: number[];
 }
 
 export interface LoginCredentials {
@@ -75,14 +318,41 @@ export interface CreateEmployee {
   name: string;
   email: string;
   department: string;
+  department_id?: number;
   position: string;
+  manager_id?: number | null;
 }
 
 export interface UpdateEmployee {
   name?: string;
   email?: string;
   department?: string;
+  department_id?: number;
   position?: string;
+  manager_id?: number | null;
+}
+
+export interface Department {
+  id: number;
+  name: string;
+  // Employee who leads the department
+  manager_id?: number | null;
+  // Department this one is part of; top-level departments have none
+  parent_id?: number | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface CreateDepartment {
+  name: string;
+  manager_id?: number | null;
+  parent_id?: number | null;
+}
+
+export interface UpdateDepartment {
+  name?: string;
+  manager_id?: number | null;
+  parent_id?: number | null;
 }
 
 export interface CreateTask {
@@ -90,6 +360,21 @@ export interface CreateTask {
   description?: string;
   due_date?: string;
   employee_id?: number;
+  department?: string;
+  checklist?: ChecklistItem[];
+  priority?: TaskPriority;
+  labels?: TaskLabel[];
+  custom_fields?: Record<string, CustomFieldValue>;
+  recurrence?: TaskRecurrence | null;
+  blocked_by?: number[];
+  blocks?: number[];
+}
+
+// A later occurrence of a recurring task
+export interface CreateTaskOccurrence extends CreateTask {
+  series_id: number;
+  occurrence: number;
+  scheduled_at: string;
 }
 
 export interface UpdateTask {
@@ -98,18 +383,625 @@ export interface UpdateTask {
   status?: 'pending' | 'ongoing' | 'completed';
   due_date?: string;
   employee_id?: number;
+  department?: string;
+  // Replaces the whole checklist
+  checklist?: ChecklistItem[];
+  priority?: TaskPriority;
+  // Replaces all labels
+  labels?: TaskLabel[];
+  custom_fields?: Record<string, CustomFieldValue>;
+  // null stops the series at this occurrence
+  recurrence?: TaskRecurrence | null;
+  scheduled_at?: string;
+  series_defaults?: TaskSeriesDefaults;
+  // Each replaces the task's whole list of relations on that side
+  blocked_by?: number[];
+  blocks?: number[];
+  // Reason for a status change, recorded in the task's activity log
+  status_note?: string;
+}
+
+export interface TaskComment {
+  id: number;
+  task_id: number;
+  // Comment this one replies to; top-level comments have none
+  parent_id?: number | null;
+  author: string;
+  body: string;
+  created_at: string;
+}
+
+export interface CreateTaskComment {
+  body: string;
+  parent_id?: number;
+}
+
+export type TaskActivityKind = 'created' | 'status_changed' | 'reassigned' | 'due_date_changed';
+
+export interface TaskActivity {
+  id: number;
+  task_id: number;
+  kind: TaskActivityKind;
+  actor: string;
+  // Old and new value: a status, an employee id or an ISO date depending on `kind`
+  from?: string | number | null;
+  to?: string | number | null;
+  // Reason given with a status change
+  note?: string | null;
+  created_at: string;
+}
+
+export interface UpdateOptions {
+  // `updated_at` of the record the edit started from; the server answers 409/412 if it has changed since
+  expectedUpdatedAt?: string;
+  // Task status before the edit, for callers that have already moved the task in the cache
+  previousStatus?: Task['status'];
+}
+
+// Validation schemas, shared by the dialogs and CSV import so both accept the same records
+export const EMPLOYEE_NAME_MAX_LENGTH = 100;
+export const TASK_TITLE_MAX_LENGTH = 200;
+export const CHECKLIST_ITEM_MAX_LENGTH = 200;
+export const LABEL_MAX_LENGTH = 30;
+export const CUSTOM_FIELD_LABEL_MAX_LENGTH = 50;
+export const DEPARTMENT_NAME_MAX_LENGTH = 100;
+
+// Emails of other employees are passed in the validation context as `existingEmails`,
+// the department names to choose from as `departmentNames`, and the reporting lines as
+// `employees` with the one being edited as `employeeId`
+export interface EmployeeValidationContext {
+  existingEmails?: string[];
+  departmentNames?: string[];
+  employees?: Employee[];
+  employeeId?: number;
+}
+
+const employeeManager = yup.number()
+  .nullable()
+  .optional()
+  .test('no-cycle', 'An employee cannot report to themselves or to someone who reports to them', (value, context) => {
+    const { employees = [], employeeId } = (context.options.context as EmployeeValidationContext | undefined) ?? {};
+    if (value === null || value === undefined || employeeId === undefined) return true;
+    // Walk up the chosen manager's reporting line; reaching the employee means a loop
+    const seen = new Set<number>();
+    for (let id: number | null | undefined = value; id !== null && id !== undefined && !seen.has(id);) {
+      if (id === employeeId) return false;
+      seen.add(id);
+      id = employees.find(e => e.id === id)?.manager_id;
+    }
+    return true;
+  });
+
+// Without any departments set up, any name is accepted as before
+const employeeDepartment = yup.string()
+  .trim()
+  .test('known-department', 'Choose a department from the list', (value, context) => {
+    const names: string[] = (context.options.context as EmployeeValidationContext | undefined)?.departmentNames ?? [];
+    return !value || names.length === 0 || names.includes(value);
+  });
+
+const employeeEmail = yup.string()
+  .trim()
+  .email('Invalid email format')
+  .test('unique-email', 'Email is already in use', (value, context) => {
+    const existing: string[] = (context.options.context as EmployeeValidationContext | undefined)?.existingEmails ?? [];
+    return !value || !existing.some(email => email.toLowerCase() === value.toLowerCase());
+  });
+
+const employeeName = yup.string()
+  .trim()
+  .max(EMPLOYEE_NAME_MAX_LENGTH, `Name must be at most ${EMPLOYEE_NAME_MAX_LENGTH} characters`);
+
+export const createEmployeeSchema: yup.ObjectSchema<CreateEmployee> = yup.object({
+  name: employeeName.required('Name is required'),
+  email: employeeEmail.required('Email is required'),
+  department: employeeDepartment.required('Department is required'),
+  department_id: yup.number().optional(),
+  position: yup.string().trim().required('Position is required'),
+  manager_id: employeeManager,
+});
+
+// Fields may be left out of an update, but a field that is sent cannot be blank
+export const updateEmployeeSchema: yup.ObjectSchema<UpdateEmployee> = yup.object({
+  name: employeeName.min(1, 'Name is required').optional(),
+  email: employeeEmail.min(1, 'Email is required').optional(),
+  department: employeeDepartment.min(1, 'Department is required').optional(),
+  department_id: yup.number().optional(),
+  position: yup.string().trim().min(1, 'Position is required').optional(),
+  manager_id: employeeManager,
+});
+
+const taskTitle = yup.string()
+  .trim()
+  .max(TASK_TITLE_MAX_LENGTH, `Title must be at most ${TASK_TITLE_MAX_LENGTH} characters`);
+
+// Empty form fields are sent as "not set" rather than as empty strings
+const taskDescription = yup.string().transform((value: string) => value || undefined);
+
+const taskDepartment = yup.string().trim().transform((value: string) => value || undefined);
+
+const taskDueDate = yup.string()
+  .transform((value: string) => value || undefined)
+  .test('valid-date', 'Invalid due date', value => !value || dayjs(value).isValid());
+
+const checklistItemSchema: yup.ObjectSchema<ChecklistItem> = yup.object({
+  id: yup.number().optional(),
+  text: yup.string()
+    .trim()
+    .required('Item text is required')
+    .max(CHECKLIST_ITEM_MAX_LENGTH, `Items must be at most ${CHECKLIST_ITEM_MAX_LENGTH} characters`),
+  done: yup.boolean().required(),
+  order: yup.number().required(),
+});
+
+const taskChecklist = yup.array(checklistItemSchema).optional();
+
+const taskPriority = yup.mixed<TaskPriority>().oneOf(['low', 'medium', 'high', 'urgent']).optional();
+
+const labelSchema: yup.ObjectSchema<TaskLabel> = yup.object({
+  name: yup.string()
+    .trim()
+    .required('Label name is required')
+    .max(LABEL_MAX_LENGTH, `Labels must be at most ${LABEL_MAX_LENGTH} characters`),
+  color: yup.string().required(),
+});
+
+const taskLabels = yup.array(labelSchema).optional();
+
+const recurrenceSchema: yup.ObjectSchema<TaskRecurrence> = yup.object({
+  frequency: yup.mixed<RecurrenceFrequency>().oneOf(['daily', 'weekly', 'monthly', 'custom']).required(),
+  interval: yup.number()
+    .typeError('Enter a number')
+    .integer('Enter a whole number')
+    .min(1, 'Must be at least 1')
+    .required('Enter a number'),
+  weekdays: yup.array(yup.number().min(0).max(6).required())
+    .when('frequency', {
+      is: 'weekly',
+      then: schema => schema.min(1, 'Pick at least one day'),
+    })
+    .optional(),
+  month_day: yup.number()
+    .typeError('Enter a day of the month')
+    .integer('Enter a day of the month')
+    .min(1, 'Enter a day from 1 to 31')
+    .max(31, 'Enter a day from 1 to 31')
+    .optional(),
+  unit: yup.mixed<RecurrenceUnit>().oneOf(['day', 'week', 'month', 'year']).optional(),
+  until: yup.string().test('valid-date', 'Invalid end date', value => !value || dayjs(value).isValid()).optional(),
+  count: yup.number()
+    .typeError('Enter a number')
+    .integer('Enter a whole number')
+    .min(1, 'Must be at least 1')
+    .optional(),
+});
+
+// Occurrences are scheduled from the due date, so a recurring task needs one
+const taskRecurrence = recurrenceSchema
+  .nullable()
+  .default(undefined)
+  .test('needs-due-date', 'Set a due date to repeat this task', (value, context) =>
+    !value || !!context.parent.due_date)
+  .optional();
+
+// Custom field definitions are passed in the validation context as `customFields`,
+// and the existing task relations as `dependencies` so circular ones can be rejected
+export interface TaskValidationContext {
+  customFields?: CustomFieldDefinition[];
+  dependencies?: {
+    index: DependencyIndex;
+    tasksById: Map<number, Task>;
+    // Task being edited; unset while creating
+    taskId?: number;
+  };
+}
+
+// A loop needs both a blocker and a blocked task, so it is reported once, on `blocked_by`
+const taskBlockedBy = yup.array(yup.number().required())
+  .test('no-cycle', (value, context) => {
+    const dependencies = (context.options.context as TaskValidationContext | undefined)?.dependencies;
+    if (!dependencies || !value?.length) return true;
+    const blocks: number[] = (context.parent as CreateTask).blocks ?? [];
+    const cycle = findDependencyCycle(dependencies.index, dependencies.taskId, value, blocks);
+    return !cycle || context.createError({
+      message: `Circular dependency: ${formatDependencyCycle(cycle, dependencies.taskId, dependencies.tasksById)}`,
+    });
+  })
+  .optional();
+
+const taskBlocks = yup.array(yup.number().required()).optional();
+
+const getCustomFieldError = (definition: CustomFieldDefinition, value: CustomFieldValue | undefined) => {
+  if (value === undefined || value === null || value === '') {
+    return definition.required ? `${definition.label} is required` : null;
+  }
+  switch (definition.type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? null : `${definition.label} must be a number`;
+    case 'select':
+      return definition.options?.includes(String(value)) ? null : `${definition.label} must be one of the listed options`;
+    case 'date':
+      return dayjs(value).isValid() ? null : `${definition.label} must be a valid date`;
+    default:
+      return null;
+  }
+};
+
+// Errors are reported on the individual field, e.g. `custom_fields.customer`
+const taskCustomFields = yup.mixed<Record<string, CustomFieldValue>>()
+  .test('custom-fields', (values, context) => {
+    const definitions = (context.options.context as TaskValidationContext | undefined)?.customFields ?? [];
+    for (const definition of definitions) {
+      const message = getCustomFieldError(definition, values?.[definition.key]);
+      if (message) return context.createError({ path: `custom_fields.${definition.key}`, message });
+    }
+    return true;
+  })
+  .optional();
+
+export const createTaskSchema: yup.ObjectSchema<CreateTask> = yup.object({
+  title: taskTitle.required('Title is required'),
+  description: taskDescription.optional(),
+  due_date: taskDueDate
+    .test('not-past', 'Due date cannot be in the past', value => !value || !dayjs(value).isBefore(dayjs(), 'minute'))
+    .optional(),
+  employee_id: yup.number().optional(),
+  department: taskDepartment.optional(),
+  checklist: taskChecklist,
+  priority: taskPriority,
+  labels: taskLabels,
+  custom_fields: taskCustomFields,
+  recurrence: taskRecurrence,
+  blocked_by: taskBlockedBy,
+  blocks: taskBlocks,
+});
+
+// Existing tasks may keep or move to a past due date, e.g. when recording late work
+export const updateTaskSchema: yup.ObjectSchema<UpdateTask> = yup.object({
+  title: taskTitle.min(1, 'Title is required').optional(),
+  description: taskDescription.optional(),
+  status: yup.mixed<Task['status']>().oneOf(['pending', 'ongoing', 'completed']).optional(),
+  due_date: taskDueDate.optional(),
+  employee_id: yup.number().optional(),
+  department: taskDepartment.optional(),
+  checklist: taskChecklist,
+  priority: taskPriority,
+  labels: taskLabels,
+  custom_fields: taskCustomFields,
+  recurrence: taskRecurrence,
+  scheduled_at: yup.string().optional(),
+  series_defaults: yup.mixed<TaskSeriesDefaults>().optional(),
+  blocked_by: taskBlockedBy,
+  blocks: taskBlocks,
+  status_note: yup.string().optional(),
+});
+
+export const customFieldSchema: yup.ObjectSchema<CreateCustomField> = yup.object({
+  key: yup.string()
+    .trim()
+    .required('Key is required')
+    .matches(/^[a-z][a-z0-9_]*$/, 'Use lowercase letters, digits and underscores, starting with a letter'),
+  label: yup.string()
+    .trim()
+    .required('Label is required')
+    .max(CUSTOM_FIELD_LABEL_MAX_LENGTH, `Label must be at most ${CUSTOM_FIELD_LABEL_MAX_LENGTH} characters`),
+  type: yup.mixed<CustomFieldType>().oneOf(['text', 'number', 'select', 'date']).required('Type is required'),
+  options: yup.array(yup.string().trim().required())
+    .transform((options: string[] | undefined) => options?.map(option => option.trim()).filter(Boolean))
+    .when('type', {
+      is: 'select',
+      then: schema => schema.min(1, 'Add at least one option'),
+      otherwise: schema => schema.transform(() => undefined),
+    })
+    .optional(),
+  required: yup.boolean().optional(),
+});
+
+// Other departments are passed in the validation context as `departments`, with the one being edited as `departmentId`
+export interface DepartmentValidationContext {
+  departments?: Department[];
+  departmentId?: number;
+}
+
+export const departmentSchema: yup.ObjectSchema<CreateDepartment> = yup.object({
+  name: yup.string()
+    .trim()
+    .required('Name is required')
+    .max(DEPARTMENT_NAME_MAX_LENGTH, `Name must be at most ${DEPARTMENT_NAME_MAX_LENGTH} characters`)
+    .test('unique-name', 'A department with this name already exists', (value, context) => {
+      const { departments = [], departmentId } = (context.options.context as DepartmentValidationContext | undefined) ?? {};
+      return !value || !departments.some(d => d.id !== departmentId && d.name.toLowerCase() === value.toLowerCase());
+    }),
+  manager_id: yup.number().nullable().optional(),
+  parent_id: yup.number()
+    .nullable()
+    .optional()
+    .test('no-cycle', 'A department cannot be placed under itself or one of its sub-departments', (value, context) => {
+      const { departments = [], departmentId } = (context.options.context as DepartmentValidationContext | undefined) ?? {};
+      if (value === null || value === undefined || departmentId === undefined) return true;
+      // Walk up from the chosen parent; reaching the department itself means a loop
+      const seen = new Set<number>();
+      for (let id: number | null | undefined = value; id !== null && id !== undefined && !seen.has(id);) {
+        if (id === departmentId) return false;
+        seen.add(id);
+        id = departments.find(d => d.id === id)?.parent_id;
+      }
+      return true;
+    }),
+});
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface ListQuery<TSortField extends string = string> {
+  page?: number;
+  page_size?: number;
+  sort_by?: TSortField;
+  sort_dir?: SortDirection;
+}
+
+export type EmployeeSortField = 'name' | 'department' | 'position' | 'created_at';
+
+export interface EmployeeListQuery extends ListQuery<EmployeeSortField> {
+  department?: string;
+}
+
+// `labels` sorts by the name of each task's first label
+export type TaskSortField = 'title' | 'status' | 'priority' | 'labels' | 'due_date' | 'created_at' | 'updated_at';
+
+export interface TaskListQuery extends ListQuery<TaskSortField> {
+  status?: Task['status'];
+  priority?: TaskPriority;
+  employee_id?: number;
+  department?: string;
+  due_from?: string;
+  due_to?: string;
 }
 
+export interface PaginatedResult<T> {
+  items: T[];
+  total: number;
+  page: number;
+  page_size: number;
+}
+
+// Backends without paging support return the whole collection; page it here so callers see one shape.
+// Such a collection is not filtered or sorted yet, see queryEmployees and queryTasks.
+const toPaginatedResult = <T>(data: PaginatedResult<T> | T[], query: ListQuery): PaginatedResult<T> => {
+  if (!Array.isArray(data)) return data;
+
+  const page = query.page ?? 1;
+  const pageSize = query.page_size ?? data.length;
+  return {
+    items: data.slice((page - 1) * pageSize, page * pageSize),
+    total: data.length,
+    page,
+    page_size: pageSize,
+  };
+};
+
+// Cache keys for the read methods below, used with the useQuery hook
+export const queryKeys = {
+  employees: () => ['employees', 'all'] as const,
+  employeeList: (query: EmployeeListQuery) => ['employees', 'list', query] as const,
+  employee: (id: number) => ['employees', 'detail', id] as const,
+  tasks: () => ['tasks', 'all'] as const,
+  taskList: (query: TaskListQuery) => ['tasks', 'list', query] as const,
+  task: (id: number) => ['tasks', 'detail', id] as const,
+  taskBatch: (ids: number[]) => ['tasks', 'batch', ids] as const,
+  // Own resources so a task edit can refresh the activity log without refetching task lists
+  taskComments: (taskId: number) => ['taskComments', taskId] as const,
+  taskActivity: (taskId: number) => ['taskActivity', taskId] as const,
+  customFields: () => ['customFields'] as const,
+  departments: () => ['departments'] as const,
+};
+
+const isPaginatedResult = (data: unknown): data is PaginatedResult<unknown> =>
+  typeof data === 'object' && data !== null && 'items' in data && Array.isArray((data as PaginatedResult<unknown>).items);
+
+// Swaps an updated record into every cached list and detail entry of a resource
+const patchCachedRecord = <T extends { id: number }>(resource: string, record: T) => {
+  const replace = (items: T[]) => items.map(item => item.id === record.id ? record : item);
+  queryCache.updateResource(resource, data => {
+    if (Array.isArray(data)) return replace(data as T[]);
+    if (isPaginatedResult(data)) return { ...data, items: replace(data.items as T[]) };
+    return (data as T).id === record.id ? record : data;
+  });
+};
+
+// Drops a deleted record from cached lists right away; the refetch that follows fixes totals and paging
+const removeCachedRecord = (resource: string, id: number) => {
+  const remove = (items: { id: number }[]) => items.filter(item => item.id !== id);
+  queryCache.updateResource(resource, data => {
+    if (Array.isArray(data)) return remove(data);
+    if (isPaginatedResult(data)) return { ...data, items: remove(data.items as { id: number }[]) };
+    return data;
+  });
+};
+
+const findCachedRecord = <T extends { id: number }>(resource: string, id: number): T | undefined =>
+  queryCache.find(resource, data => {
+    const items = Array.isArray(data) ? data : isPaginatedResult(data) ? data.items : [data];
+    return (items as T[]).find(item => item?.id === id);
+  });
+
+// User named in the stored token, even once it has expired
+const getTokenUsername = (): string | null => {
+  const token = localStorage.getItem('token');
+  return token ? decodeToken(token)?.sub ?? null : null;
+};
+
+const SNAPSHOT_RESOURCES: SyncResource[] = ['employees', 'tasks'];
+
+// Offline snapshots hold the last-fetched full collection of each resource, kept per user
+// so nobody signed in on the same device can read another user's data offline
+const snapshotKey = (resource: SyncResource) => `${getTokenUsername() ?? ''}:${resource}`;
+
+const saveSnapshot = (resource: SyncResource, items: { id: number }[]) => {
+  writeSnapshot(snapshotKey(resource), items).catch(error => console.warn('Could not save offline snapshot:', error));
+};
+
+// A fetched page only refreshes its own records in the snapshot
+const mergeSnapshot = async (resource: SyncResource, items: { id: number }[]) => {
+  const key = snapshotKey(resource);
+  try {
+    const snapshot = await readSnapshot<{ id: number }[]>(key) ?? [];
+    const fetched = new Map(items.map(item => [item.id, item]));
+    const merged = snapshot.map(item => fetched.get(item.id) ?? item);
+    const known = new Set(snapshot.map(item => item.id));
+    await writeSnapshot(key, [...merged, ...items.filter(item => !known.has(item.id))]);
+  } catch (error) {
+    console.warn('Could not save offline snapshot:', error);
+  }
+};
+
+const readOwnSnapshot = <T>(resource: SyncResource): Promise<T | undefined> =>
+  readSnapshot<T>(snapshotKey(resource)).catch(() => undefined);
+
+const loadSnapshot = async <T extends { id: number }>(resource: SyncResource): Promise<T[] | undefined> => {
+  const snapshot = await readOwnSnapshot<T[]>(resource);
+  return snapshot && offlineSync.applyPending(resource, snapshot);
+};
+
+// Removes the current user's snapshots, or with `others` the ones every other user left on this device
+const removeSnapshots = async (whose: 'own' | 'others') => {
+  const own = new Set(SNAPSHOT_RESOURCES.map(snapshotKey));
+  try {
+    const keys = await readSnapshotKeys();
+    await Promise.all(keys.filter(key => own.has(key) === (whose === 'own')).map(removeSnapshot));
+  } catch (error) {
+    console.warn('Could not remove offline snapshots:', error);
+  }
+};
+
+// Mirrors the server's list sorting so paged screens keep working from the snapshot or an unpaged backend.
+// `sortValues` covers fields that do not sort by their plain text value.
+const sortOffline = <T>(
+  items: T[],
+  query: ListQuery,
+  sortValues: Record<string, (item: T) => string | number> = {}
+): T[] => {
+  if (!query.sort_by) return items;
+  const field = query.sort_by as keyof T;
+  const valueOf = sortValues[query.sort_by] ?? (item => String(item[field] ?? ''));
+  const direction = query.sort_dir === 'desc' ? -1 : 1;
+  return [...items].sort((a, b) => {
+    const left = valueOf(a);
+    const right = valueOf(b);
+    const order = typeof left === 'number' && typeof right === 'number'
+      ? left - right
+      : String(left).localeCompare(String(right));
+    return order * direction;
+  });
+};
+
+// Tasks without a priority sort below `low`
+const PRIORITY_RANK: Record<TaskPriority, number> = { low: 1, medium: 2, high: 3, urgent: 4 };
+
+const TASK_SORT_VALUES: Record<string, (task: Task) => string | number> = {
+  priority: task => (task.priority ? PRIORITY_RANK[task.priority] : 0),
+  labels: task => task.labels?.[0]?.name.toLowerCase() ?? '',
+};
+
+const matchesTaskQuery = (task: Task, query: TaskListQuery) =>
+  (!query.status || task.status === query.status)
+  && (!query.priority || task.priority === query.priority)
+  && (query.employee_id === undefined || task.employee_id === query.employee_id)
+  && (!query.department || task.employee?.department === query.department)
+  && (!query.due_from || (!!task.due_date && !dayjs(task.due_date).isBefore(query.due_from)))
+  && (!query.due_to || (!!task.due_date && !dayjs(task.due_date).isAfter(query.due_to)));
+
+// Filters and sorts a whole collection the way the server would before it is paged here
+const queryEmployees = (employees: Employee[], query: EmployeeListQuery) =>
+  sortOffline(employees.filter(e => !query.department || e.department === query.department), query);
+
+export const queryTasks = (tasks: Task[], query: TaskListQuery) =>
+  sortOffline(tasks.filter(t => matchesTaskQuery(t, query)), query, TASK_SORT_VALUES);
+
+export type SeriesEditScope = 'this' | 'future';
+
+const SERIES_FIELDS: TaskSeriesField[] = ['title', 'description', 'employee_id', 'department', 'priority', 'labels', 'custom_fields', 'checklist'];
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Series fields whose value an edit actually changes; forms send every field
+const changedSeriesFields = (task: Task, changes: UpdateTask) =>
+  SERIES_FIELDS.filter(field => field in changes && !sameValue(changes[field], task[field]));
+
+const withoutFields = (defaults: TaskSeriesDefaults | undefined, fields: TaskSeriesField[]): TaskSeriesDefaults =>
+  Object.fromEntries(Object.entries(defaults ?? {}).filter(([field]) => !fields.includes(field as TaskSeriesField)));
+
+// A new occurrence starts with every checklist item open
+const resetChecklist = (checklist?: ChecklistItem[] | null) =>
+  checklist?.map(({ text, order }) => ({ text, order, done: false }));
+
+const versionHeaders = ({ expectedUpdatedAt }: UpdateOptions) =>
+  expectedUpdatedAt ? { 'If-Match': `"${expectedUpdatedAt}"` } : undefined;
+
+const sendMutation = async ({ resource, action, recordId, payload }: QueuedMutation) => {
+  switch (action) {
+    case 'create':
+      return (await apiClient.post(`/${resource}`, payload)).data;
+    case 'update':
+      return (await apiClient.put(`/${resource}/${recordId}`, payload)).data;
+    case 'delete':
+      await apiClient.delete(`/${resource}/${recordId}`);
+  }
+};
+
+// Brings cached data in line with a change another session made
+const applyRealtimeEvent = ({ resource, action, id, record }: RealtimeEvent) => {
+  const previous = findCachedRecord<{ id: number; employee_id?: number }>(resource, id);
+  if (action === 'updated' && record) {
+    patchCachedRecord(resource, record);
+  } else if (action === 'deleted') {
+    removeCachedRecord(resource, id);
+  }
+  // New records and filtered or paged lists need the server's view
+  if (action !== 'updated') queryCache.invalidate(resource);
+  if (resource === 'tasks') queryCache.invalidate('taskActivity');
+
+  // Same follow-up refreshes as the matching local mutation
+  if (resource === 'employees' && action !== 'created') {
+    queryCache.invalidate('tasks');
+  } else if (resource === 'tasks' && (action !== 'updated' || previous?.employee_id !== record?.employee_id)) {
+    queryCache.invalidate('employees');
+  }
+};
+
+const getRealtimeUrls = () => {
+  const base = new URL(getConfig().realtimeUrl ?? apiClient.defaults.baseURL ?? '', window.location.href);
+  const path = base.pathname.replace(/\/$/, '');
+  // Browsers cannot set headers on WebSocket or EventSource requests, so the token goes in the query
+  const token = localStorage.getItem('token');
+  const query = token ? `?${new URLSearchParams({ token })}` : '';
+  return {
+    websocket: `${base.protocol === 'https:' ? 'wss:' : 'ws:'}//${base.host}${path}/ws${query}`,
+    sse: `${base.origin}${path}/events${query}`,
+  };
+};
+
 // API Service Class
 class ApiService {
+  // Configuration
+  configure(config: AppConfig): void {
+    apiClient.defaults.baseURL = config.apiBaseUrl;
+    apiClient.defaults.timeout = config.apiTimeout;
+  }
+
+  async ping(): Promise<number> {
+    const startedAt = performance.now();
+    await apiClient.get('/');
+    return Math.round(performance.now() - startedAt);
+  }
+
   // Authentication
   async login(credentials: LoginCredentials): Promise<TokenResponse> {
     const formData = new FormData();
     formData.append('username', credentials.username);
     formData.append('password', credentials.password);
     
-    const response: AxiosResponse<TokenResponse> = await axios.post(
-      `${API_BASE_URL}/token`,
+    const response: AxiosResponse<TokenResponse> = await apiClient.post(
+      getConfig().authTokenPath,
       formData,
       {
         headers: {
@@ -124,63 +1016,497 @@ class ApiService {
     return response.data;
   }
 
-  logout(): void {
+  async refreshToken(): Promise<TokenResponse> {
+    const response: AxiosResponse<TokenResponse> = await apiClient.post(getRefreshPath());
+
+    localStorage.setItem('token', response.data.access_token);
+
+    return response.data;
+  }
+
+  // Unsent offline changes are kept for the next sign-in unless the user chose to discard them
+  logout({ discardChanges = false }: { discardChanges?: boolean } = {}): void {
+    // Before the token goes, since both are found by the user named in it
+    if (discardChanges) {
+      offlineSync.clear();
+      removeSnapshots('own');
+    }
     localStorage.removeItem('token');
+    // Cached data belongs to the user who just signed out
+    queryCache.clear();
+  }
+
+  // After a sign-in: sends the user's own unsent changes and resolves to how many other users left on this device
+  async resumeOfflineSync(): Promise<number> {
+    return (await offlineSync.switchUser()).length;
+  }
+
+  // Drops what other users left on this device: their unsent changes and their offline snapshots
+  async discardOtherUsersOfflineData(): Promise<void> {
+    await offlineSync.discardOtherUsersChanges();
+    await removeSnapshots('others');
   }
 
   isAuthenticated(): boolean {
-    return !!localStorage.getItem('token');
+    const token = localStorage.getItem('token');
+    if (!token) return false;
+
+    const expiresAt = this.getSessionExpiry();
+    return expiresAt === null || expiresAt > Date.now();
+  }
+
+  // Expiry of the stored token in epoch milliseconds, or null when the token has no `exp` claim
+  getSessionExpiry(): number | null {
+    const token = localStorage.getItem('token');
+    const exp = token ? decodeToken(token)?.exp : undefined;
+    return typeof exp === 'number' ? exp * 1000 : null;
+  }
+
+  // While a handler is set, 401 responses are held instead of redirecting to the login page
+  setUnauthorizedHandler(handler: (() => void) | null): void {
+    unauthorizedHandler = handler;
+  }
+
+  retryPendingRequests(): void {
+    const requests = pendingRequests;
+    pendingRequests = [];
+    requests.forEach(({ config, resolve, reject }) => {
+      apiClient.request(config).then(resolve, reject);
+    });
+  }
+
+  rejectPendingRequests(reason: unknown): void {
+    const requests = pendingRequests;
+    pendingRequests = [];
+    requests.forEach(({ reject }) => reject(reason));
+  }
+
+  getCurrentUsername(): string | null {
+    return getTokenUsername();
+  }
+
+  // Users
+  async getCurrentUser(): Promise<User> {
+    const response: AxiosResponse<User> = await apiClient.get('/users/me');
+    return response.data;
   }
 
   // Employees
   async getEmployees(): Promise<Employee[]> {
-    const response: AxiosResponse<Employee[]> = await apiClient.get('/employees');
-    return response.data;
+    const employees = await this.readWithFallback(async () => {
+      const response: AxiosResponse<Employee[]> = await apiClient.get('/employees');
+      saveSnapshot('employees', response.data);
+      return response.data;
+    }, () => readOwnSnapshot<Employee[]>('employees'));
+    return offlineSync.applyPending('employees', employees);
+  }
+
+  async listEmployees(query: EmployeeListQuery = {}): Promise<PaginatedResult<Employee>> {
+    return this.readWithFallback(async () => {
+      const response: AxiosResponse<PaginatedResult<Employee> | Employee[]> = await apiClient.get('/employees', {
+        params: query,
+      });
+      const data = response.data;
+      const result = toPaginatedResult(Array.isArray(data) ? queryEmployees(data, query) : data, query);
+      mergeSnapshot('employees', result.items);
+      return result;
+    }, async () => {
+      const employees = await loadSnapshot<Employee>('employees');
+      return employees && toPaginatedResult(queryEmployees(employees, query), query);
+    });
   }
 
   async getEmployee(id: number): Promise<Employee> {
-    const response: AxiosResponse<Employee> = await apiClient.get(`/employees/${id}`);
-    return response.data;
+    return this.readWithFallback(async () => {
+      const response: AxiosResponse<Employee> = await apiClient.get(`/employees/${id}`);
+      // A fresh copy replaces stale ones in cached lists
+      patchCachedRecord('employees', response.data);
+      return response.data;
+    }, async () => (await loadSnapshot<Employee>('employees'))?.find(e => e.id === id));
   }
 
   async createEmployee(employee: CreateEmployee): Promise<Employee> {
-    const response: AxiosResponse<Employee> = await apiClient.post('/employees', employee);
-    return response.data;
+    const recordId = offlineSync.nextTempId();
+    const created = await this.mutate(
+      { resource: 'employees', action: 'create', recordId, payload: { ...employee } },
+      async () => (await apiClient.post<Employee>('/employees', employee)).data,
+      () => ({ ...employee, id: recordId, created_at: new Date().toISOString() })
+    );
+    queryCache.setData<Employee[]>(queryKeys.employees(), employees => [...employees, created]);
+    queryCache.invalidate('employees');
+    return created;
   }
 
-  async updateEmployee(id: number, employee: UpdateEmployee): Promise<Employee> {
-    const response: AxiosResponse<Employee> = await apiClient.put(`/employees/${id}`, employee);
-    return response.data;
+  async updateEmployee(id: number, employee: UpdateEmployee, options: UpdateOptions = {}): Promise<Employee> {
+    const cached = findCachedRecord<Employee>('employees', id);
+    const updated = await this.mutate(
+      {
+        resource: 'employees',
+        action: 'update',
+        recordId: id,
+        payload: { ...employee },
+        baseUpdatedAt: options.expectedUpdatedAt ?? cached?.updated_at,
+      },
+      async () => (await apiClient.put<Employee>(`/employees/${id}`, employee, {
+        headers: versionHeaders(options),
+      })).data,
+      () => ({ ...cached, ...employee, id } as Employee)
+    );
+    patchCachedRecord('employees', updated);
+    // Tasks embed their assignee, so their copies are out of date too
+    queryCache.invalidate('tasks');
+    return updated;
   }
 
   async deleteEmployee(id: number): Promise<void> {
-    await apiClient.delete(`/employees/${id}`);
+    await this.mutate(
+      { resource: 'employees', action: 'delete', recordId: id },
+      async () => {
+        await apiClient.delete(`/employees/${id}`);
+      },
+      () => undefined
+    );
+    removeCachedRecord('employees', id);
+    queryCache.invalidate('employees');
+    queryCache.invalidate('tasks');
   }
 
   // Tasks
   async getTasks(): Promise<Task[]> {
-    const response: AxiosResponse<Task[]> = await apiClient.get('/tasks');
-    return response.data;
+    const tasks = await this.readWithFallback(async () => {
+      const response: AxiosResponse<Task[]> = await apiClient.get('/tasks');
+      saveSnapshot('tasks', response.data);
+      return response.data;
+    }, () => readOwnSnapshot<Task[]>('tasks'));
+    return offlineSync.applyPending('tasks', tasks);
+  }
+
+  async listTasks(query: TaskListQuery = {}): Promise<PaginatedResult<Task>> {
+    return this.readWithFallback(async () => {
+      const response: AxiosResponse<PaginatedResult<Task> | Task[]> = await apiClient.get('/tasks', {
+        params: query,
+      });
+      const data = response.data;
+      const result = toPaginatedResult(Array.isArray(data) ? queryTasks(data, query) : data, query);
+      mergeSnapshot('tasks', result.items);
+      return result;
+    }, async () => {
+      const tasks = await loadSnapshot<Task>('tasks');
+      return tasks && toPaginatedResult(queryTasks(tasks, query), query);
+    });
   }
 
   async getTask(id: number): Promise<Task> {
-    const response: AxiosResponse<Task> = await apiClient.get(`/tasks/${id}`);
-    return response.data;
+    return this.readWithFallback(async () => {
+      const response: AxiosResponse<Task> = await apiClient.get(`/tasks/${id}`);
+      // A fresh copy replaces stale ones in cached lists
+      patchCachedRecord('tasks', response.data);
+      return response.data;
+    }, async () => (await loadSnapshot<Task>('tasks'))?.find(t => t.id === id));
+  }
+
+  // Tasks by id, e.g. the blockers of one page of tasks; ids that no longer exist are left out
+  async getTasksById(ids: number[]): Promise<Task[]> {
+    const tasks = await Promise.all(ids.map(id => this.getTask(id).catch(error => {
+      if (ApiError.from(error).kind === 'not_found') return null;
+      throw error;
+    })));
+    return tasks.filter((task): task is Task => task !== null);
   }
 
   async createTask(task: CreateTask): Promise<Task> {
-    const response: AxiosResponse<Task> = await apiClient.post('/tasks', task);
+    const recordId = offlineSync.nextTempId();
+    const created = await this.mutate<Task>(
+      { resource: 'tasks', action: 'create', recordId, payload: { ...task } },
+      async () => (await apiClient.post<Task>('/tasks', task)).data,
+      () => {
+        const now = new Date().toISOString();
+        const employee = task.employee_id !== undefined
+          ? findCachedRecord<Employee>('employees', task.employee_id)
+          : undefined;
+        return { ...task, id: recordId, status: 'pending', created_at: now, updated_at: now, employee };
+      }
+    );
+    queryCache.setData<Task[]>(queryKeys.tasks(), tasks => [...tasks, created]);
+    queryCache.invalidate('tasks');
+    if (task.employee_id !== undefined) queryCache.invalidate('employees');
+    return created;
+  }
+
+  async updateTask(id: number, task: UpdateTask, options: UpdateOptions = {}): Promise<Task> {
+    const cached = findCachedRecord<Task>('tasks', id);
+    const updated = await this.mutate(
+      {
+        resource: 'tasks',
+        action: 'update',
+        recordId: id,
+        payload: { ...task },
+        baseUpdatedAt: options.expectedUpdatedAt ?? cached?.updated_at,
+      },
+      async () => (await apiClient.put<Task>(`/tasks/${id}`, task, { headers: versionHeaders(options) })).data,
+      () => ({ ...cached, ...task, id } as Task)
+    );
+    patchCachedRecord('tasks', updated);
+    queryCache.invalidate('taskActivity');
+    // The other side of a changed relation lives on other tasks
+    if (task.blocked_by !== undefined || task.blocks !== undefined) queryCache.invalidate('tasks');
+    const previousStatus = options.previousStatus ?? cached?.status;
+    if (task.status === 'completed' && previousStatus !== 'completed') {
+      try {
+        await this.scheduleNextOccurrence(updated);
+      } catch (error) {
+        throw new ApiError(ApiError.from(error).kind, {
+          detail: 'The task was completed, but its next occurrence could not be created.',
+          cause: error,
+        });
+      }
+    }
+    // Employees list their tasks, which changes when a task is reassigned
+    if (task.employee_id !== undefined) queryCache.invalidate('employees');
+    return updated;
+  }
+
+  // Edits one occurrence of a recurring task; `future` also applies the changed fields to every later occurrence
+  async updateTaskSeries(task: Task, changes: UpdateTask, scope: SeriesEditScope, options: UpdateOptions = {}): Promise<Task> {
+    const changed = changedSeriesFields(task, changes);
+    const scheduledAt = task.scheduled_at ?? task.due_date;
+
+    if (scope === 'this') {
+      // Remember the series values so the occurrences that follow do not inherit this edit
+      const remembered = Object.fromEntries(changed.map(field => [field, task[field] ?? null]));
+      return this.updateTask(task.id, {
+        ...changes,
+        series_defaults: { ...remembered, ...task.series_defaults },
+        ...(scheduledAt && { scheduled_at: scheduledAt }),
+      }, options);
+    }
+
+    // Moving the due date moves the schedule, and every later occurrence with it
+    const shift = changes.due_date && task.due_date ? dayjs(changes.due_date).diff(task.due_date) : 0;
+    const updated = await this.updateTask(task.id, {
+      ...changes,
+      series_defaults: withoutFields(task.series_defaults, changed),
+      ...(changes.due_date ? { scheduled_at: changes.due_date } : scheduledAt && { scheduled_at: scheduledAt }),
+    }, options);
+
+    const seriesId = getSeriesId(task);
+    const later = (await this.getTasks()).filter(t =>
+      t.id !== task.id && getSeriesId(t) === seriesId && (t.occurrence ?? 1) > (task.occurrence ?? 1));
+    const propagated: UpdateTask = Object.fromEntries(changed.map(field =>
+      [field, field === 'checklist' ? resetChecklist(changes.checklist) : changes[field]]));
+    for (const occurrence of later) {
+      const occurrenceScheduledAt = occurrence.scheduled_at ?? occurrence.due_date;
+      await this.updateTask(occurrence.id, {
+        ...propagated,
+        ...('recurrence' in changes && { recurrence: changes.recurrence }),
+        ...(shift && occurrence.due_date && { due_date: dayjs(occurrence.due_date).add(shift).toISOString() }),
+        ...(shift && occurrenceScheduledAt && { scheduled_at: dayjs(occurrenceScheduledAt).add(shift).toISOString() }),
+        series_defaults: withoutFields(occurrence.series_defaults, changed),
+      });
+    }
+    return updated;
+  }
+
+  async deleteTask(id: number): Promise<void> {
+    const cached = findCachedRecord<Task>('tasks', id);
+    await this.mutate(
+      { resource: 'tasks', action: 'delete', recordId: id, baseUpdatedAt: cached?.updated_at },
+      async () => {
+        await apiClient.delete(`/tasks/${id}`);
+      },
+      () => undefined
+    );
+    removeCachedRecord('tasks', id);
+    queryCache.invalidate('tasks');
+    queryCache.invalidate('employees');
+  }
+
+  // Task comments and activity
+  async getTaskComments(taskId: number): Promise<TaskComment[]> {
+    const response: AxiosResponse<TaskComment[]> = await apiClient.get(`/tasks/${taskId}/comments`);
     return response.data;
   }
 
-  async updateTask(id: number, task: UpdateTask): Promise<Task> {
-    const response: AxiosResponse<Task> = await apiClient.put(`/tasks/${id}`, task);
+  async addTaskComment(taskId: number, comment: CreateTaskComment): Promise<TaskComment> {
+    const response: AxiosResponse<TaskComment> = await apiClient.post(`/tasks/${taskId}/comments`, comment);
+    queryCache.setData<TaskComment[]>(queryKeys.taskComments(taskId), comments => [...comments, response.data]);
     return response.data;
   }
 
-  async deleteTask(id: number): Promise<void> {
-    await apiClient.delete(`/tasks/${id}`);
+  // Status changes, reassignments and due-date edits, oldest first
+  async getTaskActivity(taskId: number): Promise<TaskActivity[]> {
+    const response: AxiosResponse<TaskActivity[]> = await apiClient.get(`/tasks/${taskId}/activity`);
+    return [...response.data].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  // Custom fields
+  // Backends without custom field support answer 404; they simply have no fields
+  async getCustomFields(): Promise<CustomFieldDefinition[]> {
+    try {
+      const response: AxiosResponse<CustomFieldDefinition[]> = await apiClient.get('/custom-fields');
+      return response.data;
+    } catch (error) {
+      if (ApiError.from(error).kind === 'not_found') return [];
+      throw error;
+    }
+  }
+
+  async createCustomField(field: CreateCustomField): Promise<CustomFieldDefinition> {
+    const response: AxiosResponse<CustomFieldDefinition> = await apiClient.post('/custom-fields', field);
+    queryCache.setData<CustomFieldDefinition[]>(queryKeys.customFields(), fields => [...fields, response.data]);
+    return response.data;
+  }
+
+  async updateCustomField(id: number, field: UpdateCustomField): Promise<CustomFieldDefinition> {
+    const response: AxiosResponse<CustomFieldDefinition> = await apiClient.put(`/custom-fields/${id}`, field);
+    patchCachedRecord('customFields', response.data);
+    return response.data;
+  }
+
+  // Values already stored on tasks are left to the backend to clean up
+  async deleteCustomField(id: number): Promise<void> {
+    await apiClient.delete(`/custom-fields/${id}`);
+    removeCachedRecord('customFields', id);
+  }
+
+  // Departments
+  // Backends without department support answer 404; employees then keep free-text departments
+  async getDepartments(): Promise<Department[]> {
+    try {
+      const response: AxiosResponse<Department[]> = await apiClient.get('/departments');
+      return response.data;
+    } catch (error) {
+      if (ApiError.from(error).kind === 'not_found') return [];
+      throw error;
+    }
+  }
+
+  async createDepartment(department: CreateDepartment): Promise<Department> {
+    const response: AxiosResponse<Department> = await apiClient.post('/departments', department);
+    queryCache.setData<Department[]>(queryKeys.departments(), departments => [...departments, response.data]);
+    return response.data;
+  }
+
+  async updateDepartment(id: number, department: UpdateDepartment): Promise<Department> {
+    const response: AxiosResponse<Department> = await apiClient.put(`/departments/${id}`, department);
+    patchCachedRecord('departments', response.data);
+    // The server renames the department on its employees as well
+    if (department.name !== undefined) queryCache.invalidate('employees');
+    return response.data;
+  }
+
+  // Sub-departments and employees of a deleted department are left to the backend to reassign
+  async deleteDepartment(id: number): Promise<void> {
+    await apiClient.delete(`/departments/${id}`);
+    removeCachedRecord('departments', id);
+    queryCache.invalidate('departments');
+    queryCache.invalidate('employees');
+  }
+
+  // Realtime
+  // Starts receiving other users' changes; returns a function that stops it
+  connectRealtime(): () => void {
+    realtimeClient.connect({
+      urls: getRealtimeUrls,
+      actor: this.getCurrentUsername(),
+      onEvent: applyRealtimeEvent,
+    });
+    return () => realtimeClient.disconnect();
+  }
+
+  // Offline support
+  // Loads changes queued in an earlier session and replays them once the API is reachable
+  startOfflineSync(): Promise<void> {
+    return offlineSync.start({
+      send: sendMutation,
+      fetchCurrent: async ({ resource, recordId }) => {
+        try {
+          return (await apiClient.get(`/${resource}/${recordId}`)).data;
+        } catch (error) {
+          if (ApiError.from(error).kind === 'not_found') return null;
+          throw error;
+        }
+      },
+      isConnectionError,
+      canSend: () => this.isAuthenticated(),
+      currentUser: getTokenUsername,
+      // Any HTTP response, even an error, means the API is reachable again
+      ping: () => this.ping().catch(error => {
+        if (ApiError.from(error).status === undefined) throw error;
+      }),
+      refresh: () => {
+        queryCache.invalidate('employees');
+        queryCache.invalidate('tasks');
+      },
+      onServerVersionKept: ({ mutation, server }) => patchCachedRecord(mutation.resource, server),
+    });
+  }
+
+  // Creates the occurrence that follows a completed recurring task, unless the series has ended or it exists already
+  private async scheduleNextOccurrence(task: Task): Promise<void> {
+    const next = getNextOccurrence(task);
+    if (!next) return;
+    const seriesId = getSeriesId(task);
+    const series = (await this.getTasks()).filter(t => getSeriesId(t) === seriesId);
+    if (series.some(t => (t.occurrence ?? 1) >= next.occurrence)) return;
+
+    const defaults = task.series_defaults ?? {};
+    const seriesValue = <K extends TaskSeriesField>(field: K): CreateTask[K] | undefined =>
+      field in defaults ? defaults[field] ?? undefined : task[field];
+    const occurrence: CreateTaskOccurrence = {
+      title: seriesValue('title') ?? task.title,
+      description: seriesValue('description'),
+      employee_id: seriesValue('employee_id'),
+      department: seriesValue('department'),
+      priority: seriesValue('priority'),
+      labels: seriesValue('labels'),
+      custom_fields: seriesValue('custom_fields'),
+      checklist: resetChecklist(seriesValue('checklist')),
+      due_date: next.due_date,
+      recurrence: task.recurrence,
+      series_id: seriesId,
+      occurrence: next.occurrence,
+      scheduled_at: next.due_date,
+    };
+    await this.createTask(occurrence);
+  }
+
+  // Reads from the server, or from the offline snapshot when the API cannot be reached
+  private async readWithFallback<T>(load: () => Promise<T>, loadOffline: () => Promise<T | undefined>): Promise<T> {
+    if (!offlineSync.isOffline()) {
+      try {
+        return await load();
+      } catch (error) {
+        if (!isConnectionError(error)) throw error;
+        offlineSync.setOnline(false);
+      }
+    }
+    const offline = await loadOffline();
+    if (offline === undefined) throw new ApiError('network');
+    return offline;
+  }
+
+  // Sends a change, or queues it for replay while offline and returns the record as it will look
+  private async mutate<T>(
+    mutation: Omit<QueuedMutation, 'id' | 'queuedAt'>,
+    send: () => Promise<T>,
+    optimistic: () => T
+  ): Promise<T> {
+    if (!offlineSync.shouldQueue()) {
+      try {
+        return await send();
+      } catch (error) {
+        if (!isConnectionError(error)) throw error;
+        offlineSync.setOnline(false);
+      }
+    }
+    const record = optimistic();
+    await offlineSync.enqueue({
+      ...mutation,
+      record: mutation.action === 'create' ? record as QueuedMutation['record'] : undefined,
+    });
+    return record;
   }
 }
 
-export const apiService = new ApiService();
\ No newline at end of file
+export const apiService = new ApiService();
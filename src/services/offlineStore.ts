@@ -0,0 +1,64 @@
+// IndexedDB persistence for offline use: the last-fetched collections and the queue of unsent changes
+const DB_NAME = 'employee-task-manager';
+const DB_VERSION = 1;
+const SNAPSHOT_STORE = 'snapshots';
+const MUTATION_STORE = 'mutations';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(SNAPSHOT_STORE);
+        request.result.createObjectStore(MUTATION_STORE, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again instead of caching the failure
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const readSnapshot = <T>(key: string): Promise<T | undefined> =>
+  runRequest<T | undefined>(SNAPSHOT_STORE, 'readonly', store => store.get(key));
+
+export const writeSnapshot = <T>(key: string, data: T): Promise<void> =>
+  runRequest<IDBValidKey>(SNAPSHOT_STORE, 'readwrite', store => store.put(data, key)).then(() => undefined);
+
+export const readMutations = <T>(): Promise<T[]> =>
+  runRequest<T[]>(MUTATION_STORE, 'readonly', store => store.getAll());
+
+// Resolves to the key IndexedDB assigned; keys only grow, so they also record queue order
+export const addMutation = <T extends object>(mutation: T): Promise<number> =>
+  runRequest<number>(MUTATION_STORE, 'readwrite', store => store.add(mutation));
+
+export const putMutation = <T extends object>(mutation: T): Promise<void> =>
+  runRequest<IDBValidKey>(MUTATION_STORE, 'readwrite', store => store.put(mutation)).then(() => undefined);
+
+export const removeMutation = (id: number): Promise<void> =>
+  runRequest<undefined>(MUTATION_STORE, 'readwrite', store => store.delete(id));
+
+export const readSnapshotKeys = (): Promise<string[]> =>
+  runRequest<string[]>(SNAPSHOT_STORE, 'readonly', store => store.getAllKeys());
+
+export const removeSnapshot = (key: string): Promise<void> =>
+  runRequest<undefined>(SNAPSHOT_STORE, 'readwrite', store => store.delete(key));
@@ -0,0 +1,340 @@
+import { addMutation, putMutation, readMutations, removeMutation } from './offlineStore';
+
+export type SyncResource = 'employees' | 'tasks';
+
+type SyncRecord = { id: number } & Record<string, unknown>;
+
+export interface QueuedMutation {
+  // IndexedDB key; unset only when the browser refused to store the change
+  id?: number;
+  resource: SyncResource;
+  action: 'create' | 'update' | 'delete';
+  // Records created offline get a negative id until the server assigns one
+  recordId: number;
+  payload?: Record<string, unknown>;
+  // Full record shown for a create while it is waiting
+  record?: SyncRecord;
+  // Server `updated_at` the change was based on, used to detect conflicting edits
+  baseUpdatedAt?: string;
+  // User who made the change; it is only ever sent with their sign-in
+  owner?: string;
+  queuedAt: number;
+}
+
+export interface SyncConflict {
+  mutation: QueuedMutation;
+  server: SyncRecord;
+}
+
+export interface RejectedMutation {
+  mutation: QueuedMutation;
+  error: unknown;
+}
+
+export interface SyncState {
+  online: boolean;
+  pending: QueuedMutation[];
+  syncing: boolean;
+  // Replay stops at a conflict until the user picks a version
+  conflict: SyncConflict | null;
+  // Changes the server refused during replay, waiting to be reported
+  rejected: RejectedMutation[];
+}
+
+export interface SyncHandlers {
+  send: (mutation: QueuedMutation) => Promise<SyncRecord | void>;
+  // Current server copy of the mutated record, or null when it no longer exists
+  fetchCurrent: (mutation: QueuedMutation) => Promise<SyncRecord | null>;
+  isConnectionError: (error: unknown) => boolean;
+  // False while signed out; replay waits for the next sign-in instead of having every change refused
+  canSend: () => boolean;
+  // User of the current or last session; only their queued changes are shown and sent
+  currentUser: () => string | null;
+  ping: () => Promise<unknown>;
+  // Called when the server may have data the app has not seen: after reconnecting or sending queued changes
+  refresh: () => void;
+  onServerVersionKept: (conflict: SyncConflict) => void;
+}
+
+const RECONNECT_INTERVAL = 15_000;
+
+// Created records refer to each other by id, e.g. a task assigned to an employee created offline
+const REFERENCE_FIELDS: Partial<Record<string, SyncResource>> = {
+  employee_id: 'employees',
+};
+
+class OfflineSync {
+  private state: SyncState = {
+    online: typeof navigator === 'undefined' ? true : navigator.onLine,
+    pending: [],
+    syncing: false,
+    conflict: null,
+    rejected: [],
+  };
+  private listeners = new Set<() => void>();
+  private handlers: SyncHandlers | null = null;
+  private reconnectTimer: number | undefined;
+  private lastTempId = 0;
+  // User whose changes are loaded in `pending`
+  private user: string | null = null;
+
+  private setState(changes: Partial<SyncState>): void {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach(listener => listener());
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getState = (): SyncState => this.state;
+
+  async start(handlers: SyncHandlers): Promise<void> {
+    this.handlers = handlers;
+    await this.load();
+    window.addEventListener('online', () => this.setOnline(true));
+    window.addEventListener('offline', () => this.setOnline(false));
+    if (this.state.online) {
+      this.replay();
+    } else {
+      this.scheduleReconnect();
+    }
+  }
+
+  private async readStored(): Promise<QueuedMutation[]> {
+    try {
+      return (await readMutations<QueuedMutation>()).sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+    } catch (error) {
+      console.warn('Offline queue unavailable:', error);
+      return [];
+    }
+  }
+
+  // Only the current user's changes are loaded; other users' stay stored for their next sign-in
+  private async load(): Promise<void> {
+    this.user = this.handlers?.currentUser() ?? null;
+    const stored = await this.readStored();
+    this.setState({ pending: stored.filter(mutation => mutation.owner === this.user) });
+  }
+
+  // Called after every sign-in, which may be a different user: shows and sends only their changes.
+  // Resolves to the changes other users left on this device, which are never sent under this sign-in.
+  async switchUser(): Promise<QueuedMutation[]> {
+    const user = this.handlers?.currentUser() ?? null;
+    if (user !== this.user) {
+      this.setState({ conflict: null, rejected: [] });
+      await this.load();
+    }
+    this.replay();
+    return (await this.readStored()).filter(mutation => mutation.owner !== user);
+  }
+
+  async discardOtherUsersChanges(): Promise<void> {
+    const user = this.handlers?.currentUser() ?? null;
+    const others = (await this.readStored()).filter(mutation => mutation.owner !== user);
+    await this.remove(others);
+  }
+
+  private async remove(mutations: QueuedMutation[]): Promise<void> {
+    await Promise.all(mutations.map(mutation => mutation.id !== undefined
+      ? removeMutation(mutation.id).catch(error => console.warn('Could not remove offline change:', error))
+      : undefined));
+  }
+
+  // New changes wait behind older ones so the server sees them in order
+  shouldQueue(): boolean {
+    return !this.state.online || this.state.pending.length > 0;
+  }
+
+  isOffline(): boolean {
+    return !this.state.online;
+  }
+
+  setOnline(online: boolean): void {
+    if (online === this.state.online) return;
+    this.setState({ online });
+    if (online) {
+      window.clearInterval(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+      if (this.state.pending.length === 0) {
+        this.handlers?.refresh();
+      } else {
+        this.replay();
+      }
+    } else {
+      this.scheduleReconnect();
+    }
+  }
+
+  // The browser's online event does not fire when only the API is unreachable, so poll it
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer !== undefined || !this.handlers) return;
+    const handlers = this.handlers;
+    this.reconnectTimer = window.setInterval(() => {
+      handlers.ping().then(() => this.setOnline(true), () => undefined);
+    }, RECONNECT_INTERVAL);
+  }
+
+  nextTempId(): number {
+    this.lastTempId = Math.min(-Date.now(), this.lastTempId - 1);
+    return this.lastTempId;
+  }
+
+  async enqueue(mutation: Omit<QueuedMutation, 'id' | 'queuedAt'>): Promise<void> {
+    const queued: QueuedMutation = {
+      ...mutation,
+      owner: this.handlers?.currentUser() ?? undefined,
+      queuedAt: Date.now(),
+    };
+    try {
+      queued.id = await addMutation(queued);
+    } catch (error) {
+      console.warn('Could not persist offline change:', error);
+    }
+    this.setState({ pending: [...this.state.pending, queued] });
+    this.replay();
+  }
+
+  // Shows waiting changes on top of data from the server or the offline snapshot
+  applyPending<T extends { id: number }>(resource: SyncResource, items: T[]): T[] {
+    return this.state.pending
+      .filter(mutation => mutation.resource === resource)
+      .reduce<T[]>((list, mutation) => {
+        switch (mutation.action) {
+          case 'create':
+            return mutation.record && !list.some(item => item.id === mutation.recordId)
+              ? [...list, mutation.record as unknown as T]
+              : list;
+          case 'update':
+            return list.map(item => item.id === mutation.recordId ? { ...item, ...mutation.payload } : item);
+          case 'delete':
+            return list.filter(item => item.id !== mutation.recordId);
+        }
+      }, items);
+  }
+
+  async replay(): Promise<void> {
+    const handlers = this.handlers;
+    if (!handlers || !handlers.canSend() || this.state.syncing || !this.state.online || this.state.conflict) return;
+
+    this.setState({ syncing: true });
+    let sent = false;
+    // Set when the signed-in user changed part way; switchUser has then loaded the new user's changes
+    let interrupted = false;
+    while (this.state.pending.length > 0 && this.state.online) {
+      const mutation = this.state.pending[0];
+      // A change is never sent with another user's sign-in
+      if (mutation.owner !== handlers.currentUser()) {
+        interrupted = true;
+        break;
+      }
+      try {
+        if (mutation.action !== 'create' && mutation.baseUpdatedAt) {
+          const server = await handlers.fetchCurrent(mutation);
+          if (server && typeof server.updated_at === 'string' && server.updated_at > mutation.baseUpdatedAt) {
+            this.setState({ conflict: { mutation, server } });
+            break;
+          }
+        }
+        await this.complete(mutation, await handlers.send(mutation));
+        sent = true;
+      } catch (error) {
+        // Signed out or signed in as someone else while it was being sent; it stays stored for its owner
+        if (mutation.owner !== handlers.currentUser()) {
+          interrupted = true;
+          break;
+        }
+        if (handlers.isConnectionError(error)) {
+          this.setOnline(false);
+          break;
+        }
+        await this.complete(mutation);
+        sent = true;
+        this.setState({ rejected: [...this.state.rejected, { mutation, error }] });
+      }
+    }
+    this.setState({ syncing: false });
+    if (interrupted && this.state.pending[0]?.owner === handlers.currentUser()) {
+      this.replay();
+    } else if (sent && this.state.pending.length === 0) {
+      handlers.refresh();
+    }
+  }
+
+  async resolveConflict(keep: 'mine' | 'server'): Promise<void> {
+    const conflict = this.state.conflict;
+    if (!conflict || !this.handlers) return;
+
+    if (keep === 'server') {
+      await this.complete(conflict.mutation);
+      this.handlers.onServerVersionKept(conflict);
+      this.setState({ conflict: null });
+    } else {
+      try {
+        const result = await this.handlers.send(conflict.mutation);
+        this.setState({ conflict: null });
+        await this.complete(conflict.mutation, result);
+      } catch (error) {
+        if (this.handlers.isConnectionError(error)) {
+          this.setOnline(false);
+          return;
+        }
+        this.setState({ conflict: null, rejected: [...this.state.rejected, { mutation: conflict.mutation, error }] });
+        await this.complete(conflict.mutation);
+      }
+    }
+    if (this.state.pending.length === 0) {
+      this.handlers.refresh();
+    } else {
+      this.replay();
+    }
+  }
+
+  dismissRejected(): void {
+    this.setState({ rejected: [] });
+  }
+
+  // Drops the current user's unsent changes; other users' stay stored
+  async clear(): Promise<void> {
+    const pending = this.state.pending;
+    this.setState({ pending: [], conflict: null, rejected: [] });
+    await this.remove(pending);
+  }
+
+  // Drops a finished change and points later changes at the server's id and version
+  private async complete(mutation: QueuedMutation, result?: SyncRecord | void): Promise<void> {
+    if (mutation.id !== undefined) {
+      await removeMutation(mutation.id).catch(error => console.warn('Could not remove offline change:', error));
+    }
+
+    const rest = this.state.pending.filter(item => item !== mutation);
+    const updated = rest.map(item => {
+      if (!result) return item;
+      let next = item;
+      if (mutation.action === 'create' && item.resource === mutation.resource && item.recordId === mutation.recordId) {
+        next = { ...next, recordId: result.id };
+      }
+      if (mutation.action === 'create' && next.payload) {
+        const payload = { ...next.payload };
+        Object.entries(REFERENCE_FIELDS).forEach(([field, resource]) => {
+          if (resource === mutation.resource && payload[field] === mutation.recordId) payload[field] = result.id;
+        });
+        next = { ...next, payload };
+      }
+      if (item.resource === mutation.resource && next.recordId === result.id && typeof result.updated_at === 'string') {
+        next = { ...next, baseUpdatedAt: result.updated_at };
+      }
+      return next;
+    });
+
+    await Promise.all(updated
+      .filter((item, index) => item !== rest[index] && item.id !== undefined)
+      .map(item => putMutation(item).catch(error => console.warn('Could not update offline change:', error))));
+    this.setState({ pending: updated });
+  }
+}
+
+export const offlineSync = new OfflineSync();
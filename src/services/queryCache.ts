@@ -0,0 +1,166 @@
+// Keys start with the resource name (e.g. ['tasks', 'list', query]) so a mutation can reach every entry of a resource
+export type QueryKey = readonly unknown[];
+
+export interface QueryState<T> {
+  data?: T;
+  error?: unknown;
+  updatedAt: number;
+  isFetching: boolean;
+}
+
+interface CacheEntry {
+  key: QueryKey;
+  state: QueryState<unknown>;
+  promise?: Promise<unknown>;
+  fetcher?: () => Promise<unknown>;
+  invalidated: boolean;
+  // Set when the entry is invalidated mid-request; one more request follows the current one
+  refetchQueued: boolean;
+  listeners: Set<() => void>;
+}
+
+export const DEFAULT_STALE_TIME = 30_000;
+
+const EMPTY_STATE: QueryState<never> = { updatedAt: 0, isFetching: false };
+
+// Object keys are sorted so { a, b } and { b, a } hit the same entry
+export const hashQueryKey = (key: QueryKey): string =>
+  JSON.stringify(key, (_, value: unknown) => {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) return value;
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .filter(([, entry]) => entry !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+    );
+  });
+
+class QueryCache {
+  private entries = new Map<string, CacheEntry>();
+
+  private getEntry(key: QueryKey): CacheEntry {
+    const hash = hashQueryKey(key);
+    let entry = this.entries.get(hash);
+    if (!entry) {
+      entry = { key, state: EMPTY_STATE, invalidated: false, refetchQueued: false, listeners: new Set() };
+      this.entries.set(hash, entry);
+    }
+    return entry;
+  }
+
+  // State objects are replaced, never mutated, so subscribers can compare them by reference
+  private setState(entry: CacheEntry, changes: Partial<QueryState<unknown>>): void {
+    entry.state = { ...entry.state, ...changes };
+    entry.listeners.forEach(listener => listener());
+  }
+
+  private entriesOf(resource: string): CacheEntry[] {
+    return [...this.entries.values()].filter(entry => entry.key[0] === resource);
+  }
+
+  getState<T>(key: QueryKey): QueryState<T> {
+    return (this.entries.get(hashQueryKey(key))?.state ?? EMPTY_STATE) as QueryState<T>;
+  }
+
+  subscribe(key: QueryKey, listener: () => void): () => void {
+    const entry = this.getEntry(key);
+    entry.listeners.add(listener);
+    return () => {
+      entry.listeners.delete(listener);
+    };
+  }
+
+  isStale(key: QueryKey, staleTime = DEFAULT_STALE_TIME): boolean {
+    const entry = this.entries.get(hashQueryKey(key));
+    return !entry || entry.invalidated || entry.state.data === undefined || Date.now() - entry.state.updatedAt > staleTime;
+  }
+
+  // Concurrent calls for the same key share one request
+  fetch<T>(key: QueryKey, fetcher: () => Promise<T>): Promise<T> {
+    const entry = this.getEntry(key);
+    entry.fetcher = fetcher;
+    if (entry.promise) return entry.promise as Promise<T>;
+
+    const settle = (changes: Partial<QueryState<unknown>>) => {
+      if (entry.promise !== promise) return;
+      entry.promise = undefined;
+      this.setState(entry, { ...changes, isFetching: false });
+      if (entry.refetchQueued) {
+        entry.refetchQueued = false;
+        this.refetchIfActive(entry);
+      }
+    };
+
+    const promise: Promise<T> = fetcher().then(
+      data => {
+        settle({ data, error: undefined, updatedAt: Date.now() });
+        return data;
+      },
+      (error: unknown) => {
+        settle({ error });
+        throw error;
+      }
+    );
+    entry.promise = promise;
+    entry.invalidated = false;
+    this.setState(entry, { isFetching: true });
+    return promise;
+  }
+
+  private refetchIfActive(entry: CacheEntry): void {
+    if (entry.listeners.size > 0 && entry.fetcher) {
+      this.fetch(entry.key, entry.fetcher).catch(() => undefined);
+    }
+  }
+
+  getData<T>(key: QueryKey): T | undefined {
+    return this.getState<T>(key).data;
+  }
+
+  // Updates cached data in place; entries that were never loaded are left alone
+  setData<T>(key: QueryKey, updater: (data: T) => T): void {
+    const entry = this.entries.get(hashQueryKey(key));
+    if (entry?.state.data === undefined) return;
+    this.setState(entry, { data: updater(entry.state.data as T) });
+  }
+
+  // First value `pick` finds in the loaded entries of a resource
+  find<T>(resource: string, pick: (data: unknown) => T | undefined): T | undefined {
+    for (const entry of this.entriesOf(resource)) {
+      const found = entry.state.data === undefined ? undefined : pick(entry.state.data);
+      if (found !== undefined) return found;
+    }
+    return undefined;
+  }
+
+  updateResource(resource: string, updater: (data: unknown, key: QueryKey) => unknown): void {
+    this.entriesOf(resource)
+      .filter(entry => entry.state.data !== undefined)
+      .forEach(entry => this.setState(entry, { data: updater(entry.state.data, entry.key) }));
+  }
+
+  // Entries on screen refetch right away; the rest refetch the next time they are used.
+  // A request already on its way may predate the change, so another one follows it.
+  invalidate(resource: string): void {
+    this.entriesOf(resource).forEach(entry => {
+      entry.invalidated = true;
+      if (entry.promise) {
+        entry.refetchQueued = true;
+      } else {
+        this.refetchIfActive(entry);
+      }
+    });
+  }
+
+  clear(): void {
+    this.entries.forEach((entry, hash) => {
+      entry.promise = undefined;
+      entry.invalidated = false;
+      entry.refetchQueued = false;
+      entry.state = EMPTY_STATE;
+      entry.listeners.forEach(listener => listener());
+      if (entry.listeners.size === 0) this.entries.delete(hash);
+    });
+  }
+}
+
+export const queryCache = new QueryCache();
@@ -0,0 +1,186 @@
+export type RealtimeResource = 'employees' | 'tasks';
+
+// Message sent by the server for every change, over either transport
+export interface RealtimeEvent {
+  resource: RealtimeResource;
+  action: 'created' | 'updated' | 'deleted';
+  id: number;
+  // Record after the change; omitted for deletes
+  record?: { id: number } & Record<string, unknown>;
+  // Username of whoever made the change
+  actor?: string;
+}
+
+export interface RemoteChange {
+  event: RealtimeEvent;
+  receivedAt: number;
+}
+
+export type RealtimeTransport = 'websocket' | 'sse';
+
+export interface RealtimeOptions {
+  // Read on every (re)connect so a refreshed token is picked up
+  urls: () => { websocket: string; sse: string };
+  // Events from this user are applied but not flagged as someone else's change
+  actor: string | null;
+  onEvent: (event: RealtimeEvent) => void;
+}
+
+const HIGHLIGHT_DURATION = 4000;
+const MIN_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30_000;
+
+const RESOURCES: RealtimeResource[] = ['employees', 'tasks'];
+const ACTIONS: RealtimeEvent['action'][] = ['created', 'updated', 'deleted'];
+
+const isRealtimeEvent = (value: unknown): value is RealtimeEvent => {
+  const event = value as RealtimeEvent | null;
+  return typeof event === 'object' && event !== null
+    && RESOURCES.includes(event.resource)
+    && ACTIONS.includes(event.action)
+    && typeof event.id === 'number';
+};
+
+const changeKey = (resource: RealtimeResource, id: number) => `${resource}:${id}`;
+
+// Keeps one live connection for change events: WebSocket first, Server-Sent Events when sockets are unavailable
+class RealtimeClient {
+  private options: RealtimeOptions | null = null;
+  private socket: WebSocket | null = null;
+  private eventSource: EventSource | null = null;
+  private retryTimer: number | undefined;
+  private retryDelay = MIN_RETRY_DELAY;
+  private transport: RealtimeTransport | null = null;
+  // Last change made by someone else, per record
+  private changes = new Map<string, RemoteChange>();
+  private highlighted = new Set<string>();
+  private listeners = new Set<() => void>();
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  getTransport(): RealtimeTransport | null {
+    return this.transport;
+  }
+
+  getChange(resource: RealtimeResource, id: number): RemoteChange | undefined {
+    return this.changes.get(changeKey(resource, id));
+  }
+
+  // True for a few seconds after someone else changes the record
+  isHighlighted(resource: RealtimeResource, id: number): boolean {
+    return this.highlighted.has(changeKey(resource, id));
+  }
+
+  connect(options: RealtimeOptions): void {
+    this.disconnect();
+    this.options = options;
+    this.openWebSocket();
+  }
+
+  disconnect(): void {
+    window.clearTimeout(this.retryTimer);
+    this.retryTimer = undefined;
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.eventSource?.close();
+    this.eventSource = null;
+    this.options = null;
+    this.retryDelay = MIN_RETRY_DELAY;
+    this.changes.clear();
+    this.highlighted.clear();
+    this.setTransport(null);
+  }
+
+  private setTransport(transport: RealtimeTransport | null): void {
+    if (transport === this.transport) return;
+    this.transport = transport;
+    this.notify();
+  }
+
+  private openWebSocket(): void {
+    if (!this.options) return;
+    let opened = false;
+    const socket = new WebSocket(this.options.urls().websocket);
+    socket.onopen = () => {
+      opened = true;
+      this.retryDelay = MIN_RETRY_DELAY;
+      this.setTransport('websocket');
+    };
+    socket.onmessage = (message) => this.handleMessage(message.data);
+    socket.onclose = () => {
+      // Closed by disconnect()
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.setTransport(null);
+      // A socket that never opened means the server or a proxy does not speak WebSocket
+      if (opened) {
+        this.scheduleRetry(() => this.openWebSocket());
+      } else {
+        this.openEventSource();
+      }
+    };
+    this.socket = socket;
+  }
+
+  private openEventSource(): void {
+    if (!this.options) return;
+    const source = new EventSource(this.options.urls().sse);
+    source.onopen = () => {
+      this.retryDelay = MIN_RETRY_DELAY;
+      this.setTransport('sse');
+    };
+    source.onmessage = (message) => this.handleMessage(message.data);
+    source.onerror = () => {
+      this.setTransport(null);
+      // EventSource reconnects by itself unless the server refused the stream
+      if (source.readyState === EventSource.CLOSED && this.eventSource === source) {
+        this.eventSource = null;
+        this.scheduleRetry(() => this.openWebSocket());
+      }
+    };
+    this.eventSource = source;
+  }
+
+  private scheduleRetry(open: () => void): void {
+    window.clearTimeout(this.retryTimer);
+    this.retryTimer = window.setTimeout(open, this.retryDelay);
+    this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY);
+  }
+
+  private handleMessage(data: unknown): void {
+    let event: unknown;
+    try {
+      event = typeof data === 'string' ? JSON.parse(data) : undefined;
+    } catch (error) {
+      console.warn('Ignoring malformed realtime message:', error);
+      return;
+    }
+    if (!isRealtimeEvent(event) || !this.options) return;
+
+    this.options.onEvent(event);
+    if (event.actor && event.actor === this.options.actor) return;
+
+    const key = changeKey(event.resource, event.id);
+    this.changes.set(key, { event, receivedAt: Date.now() });
+    this.highlighted.add(key);
+    this.notify();
+    window.setTimeout(() => {
+      // A newer change restarted the highlight
+      if (Date.now() - (this.changes.get(key)?.receivedAt ?? 0) < HIGHLIGHT_DURATION) return;
+      this.highlighted.delete(key);
+      this.notify();
+    }, HIGHLIGHT_DURATION);
+  }
+}
+
+export const realtimeClient = new RealtimeClient();
@@ -0,0 +1,32 @@
+import { getErrorMessage } from '../services/api';
+
+export type BatchItemStatus = 'pending' | 'success' | 'error';
+
+export interface BatchItemResult<T, R = unknown> {
+  item: T;
+  status: BatchItemStatus;
+  value?: R;
+  error?: string;
+}
+
+// Runs the action one item at a time and keeps going past failures so every item gets a result
+export const runBatch = async <T, R>(
+  items: T[],
+  action: (item: T) => Promise<R>,
+  onProgress?: (index: number, result: BatchItemResult<T, R>) => void
+): Promise<BatchItemResult<T, R>[]> => {
+  const results: BatchItemResult<T, R>[] = [];
+
+  for (const [index, item] of items.entries()) {
+    let result: BatchItemResult<T, R>;
+    try {
+      result = { item, status: 'success', value: await action(item) };
+    } catch (error) {
+      result = { item, status: 'error', error: getErrorMessage(error, 'Failed') };
+    }
+    results.push(result);
+    onProgress?.(index, result);
+  }
+
+  return results;
+};
@@ -0,0 +1,81 @@
+import type { Department, Employee } from '../services/api';
+
+// Compared ignoring case, spacing and punctuation, so "R&D" and "r & d" are the same department
+export const normalizeDepartmentName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Department a free-text value most likely means: same name, or the only department it abbreviates ("Eng" → "Engineering")
+export const matchDepartment = (value: string, departments: Department[]): Department | undefined => {
+  const key = normalizeDepartmentName(value);
+  if (!key) return undefined;
+  const exact = departments.find(department => normalizeDepartmentName(department.name) === key);
+  if (exact) return exact;
+  const prefixed = departments.filter(department => normalizeDepartmentName(department.name).startsWith(key));
+  return prefixed.length === 1 ? prefixed[0] : undefined;
+};
+
+// Departments in hierarchy order, each after its parent; a missing parent makes a department top-level
+export const getDepartmentTree = (departments: Department[]): { department: Department; depth: number }[] => {
+  const ids = new Set(departments.map(department => department.id));
+  const children = new Map<number | null, Department[]>();
+  departments.forEach(department => {
+    const parent = department.parent_id !== null && department.parent_id !== undefined && ids.has(department.parent_id)
+      ? department.parent_id
+      : null;
+    children.set(parent, [...(children.get(parent) ?? []), department]);
+  });
+
+  const rows: { department: Department; depth: number }[] = [];
+  const visit = (parent: number | null, depth: number) => {
+    [...(children.get(parent) ?? [])]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach(department => {
+        rows.push({ department, depth });
+        visit(department.id, depth + 1);
+      });
+  };
+  visit(null, 0);
+  return rows;
+};
+
+// A department and everything below it; none of them can become its parent
+export const getDepartmentSubtree = (departments: Department[], id: number): Set<number> => {
+  const subtree = new Set([id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    departments.forEach(department => {
+      if (department.parent_id !== null && department.parent_id !== undefined
+        && subtree.has(department.parent_id) && !subtree.has(department.id)) {
+        subtree.add(department.id);
+        grew = true;
+      }
+    });
+  }
+  return subtree;
+};
+
+export interface UnmappedDepartment {
+  // Free-text value as most employees spell it
+  value: string;
+  employees: Employee[];
+}
+
+// Employees whose department is not linked to a department record, grouped by the name they would normalize to
+export const getUnmappedDepartments = (employees: Employee[], departments: Department[]): UnmappedDepartment[] => {
+  const groups = new Map<string, Employee[]>();
+  employees
+    .filter(employee => !departments.some(d => d.id === employee.department_id && d.name === employee.department))
+    .forEach(employee => {
+      const key = normalizeDepartmentName(employee.department ?? '');
+      groups.set(key, [...(groups.get(key) ?? []), employee]);
+    });
+
+  return [...groups.values()]
+    .map(group => {
+      const spellings = new Map<string, number>();
+      group.forEach(employee => spellings.set(employee.department, (spellings.get(employee.department) ?? 0) + 1));
+      const [value] = [...spellings.entries()].sort((a, b) => b[1] - a[1])[0];
+      return { value: value.trim(), employees: group };
+    })
+    .sort((a, b) => a.value.localeCompare(b.value));
+};
@@ -0,0 +1,99 @@
+import type { Task } from '../services/api';
+
+// Edges in both directions; a relation listed on either of its tasks counts
+export interface DependencyIndex {
+  // Task id -> ids of the tasks it waits for
+  blockedBy: Map<number, Set<number>>;
+  // Task id -> ids of the tasks waiting for it
+  blocks: Map<number, Set<number>>;
+}
+
+const addEdge = (index: DependencyIndex, blocker: number, blocked: number) => {
+  if (!index.blockedBy.has(blocked)) index.blockedBy.set(blocked, new Set());
+  if (!index.blocks.has(blocker)) index.blocks.set(blocker, new Set());
+  index.blockedBy.get(blocked)!.add(blocker);
+  index.blocks.get(blocker)!.add(blocked);
+};
+
+export const buildDependencyIndex = (tasks: Task[]): DependencyIndex => {
+  const index: DependencyIndex = { blockedBy: new Map(), blocks: new Map() };
+  tasks.forEach(task => {
+    task.blocked_by?.forEach(blocker => addEdge(index, blocker, task.id));
+    task.blocks?.forEach(blocked => addEdge(index, task.id, blocked));
+  });
+  return index;
+};
+
+// Blockers of a task that are not completed yet; unknown ids are left out
+export const getOpenBlockers = (task: Task, index: DependencyIndex, tasksById: Map<number, Task>): Task[] =>
+  [...(index.blockedBy.get(task.id) ?? [])]
+    .map(id => tasksById.get(id))
+    .filter((blocker): blocker is Task => !!blocker && blocker.status !== 'completed');
+
+// Shown on disabled Start buttons and when a move out of pending is refused
+export const getBlockedMessage = (blockers: Task[]) =>
+  blockers.length === 0 ? null : `Blocked by ${blockers.map(blocker => `"${blocker.title}"`).join(', ')}`;
+
+// Pending tasks stay put until every blocker is completed; null when the status change is allowed
+export const getStatusChangeBlockedMessage = (task: Task, newStatus: Task['status'], blockers: Task[]) =>
+  task.status === 'pending' && newStatus !== 'pending' ? getBlockedMessage(blockers) : null;
+
+// Stands in for a task that has not been saved yet; server ids are positive and offline ids negative
+const UNSAVED_TASK_ID = 0;
+
+// Loop that a task's edited relations would close, as task ids starting and ending with the task; null when there is none
+export const findDependencyCycle = (
+  index: DependencyIndex,
+  taskId: number | undefined,
+  blockedBy: number[],
+  blocks: number[]
+): number[] | null => {
+  const self = taskId ?? UNSAVED_TASK_ID;
+  // The task's stored relations are replaced by the edited ones
+  const waitingOn = (id: number): number[] => {
+    if (id === self) return blocks;
+    const waiting = [...(index.blocks.get(id) ?? [])].filter(blocked => blocked !== self);
+    return blockedBy.includes(id) ? [...waiting, self] : waiting;
+  };
+
+  const visited = new Set<number>();
+  const search = (id: number, path: number[]): number[] | null => {
+    for (const next of waitingOn(id)) {
+      if (next === self) return [...path, self];
+      if (visited.has(next)) continue;
+      visited.add(next);
+      const found = search(next, [...path, next]);
+      if (found) return found;
+    }
+    return null;
+  };
+  return search(self, [self]);
+};
+
+// E.g. 'this task → "Deploy" → "Review" → this task'
+export const formatDependencyCycle = (cycle: number[], taskId: number | undefined, tasksById: Map<number, Task>) =>
+  cycle
+    .map(id => id === (taskId ?? UNSAVED_TASK_ID) ? 'this task' : `"${tasksById.get(id)?.title ?? `#${id}`}"`)
+    .join(' → ');
+
+// Tasks reached from a task level by level, nearest first; each task appears once even in a loop
+export const getDependencyLevels = (
+  index: DependencyIndex,
+  taskId: number,
+  direction: 'upstream' | 'downstream'
+): number[][] => {
+  const edges = direction === 'upstream' ? index.blockedBy : index.blocks;
+  const levels: number[][] = [];
+  const seen = new Set([taskId]);
+  let current = [taskId];
+  while (current.length > 0) {
+    const level = current.flatMap(id => [...(edges.get(id) ?? [])]).filter(id => {
+      if (seen.has(id)) return false;
+      seen.add(id);
+      return true;
+    });
+    if (level.length > 0) levels.push(level);
+    current = level;
+  }
+  return levels;
+};
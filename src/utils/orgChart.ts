@@ -0,0 +1,83 @@
+import type { Employee } from '../services/api';
+
+export interface OrgNode {
+  employee: Employee;
+  reports: OrgNode[];
+}
+
+export interface OrgChart {
+  // Top of each tree: employees without a manager, orphans, and one member of each cycle
+  roots: OrgNode[];
+  // Employees whose manager_id points at an employee that does not exist
+  orphans: Employee[];
+  // Reporting loops, each as the employee ids in order of who reports to whom
+  cycles: number[][];
+}
+
+const hasManager = (employee: Employee): employee is Employee & { manager_id: number } =>
+  employee.manager_id !== null && employee.manager_id !== undefined;
+
+// Reporting tree built from manager_id; broken data is flagged rather than dropped, so every employee appears once
+export const buildOrgChart = (employees: Employee[]): OrgChart => {
+  const byId = new Map(employees.map(employee => [employee.id, employee]));
+  const orphans = employees.filter(employee => hasManager(employee) && !byId.has(employee.manager_id));
+
+  // Follow each reporting line upwards; coming back to an employee already on the line closes a loop
+  const cycles: number[][] = [];
+  const resolved = new Set<number>();
+  employees.forEach(start => {
+    const path: number[] = [];
+    let current: Employee | undefined = start;
+    while (current && !resolved.has(current.id) && !path.includes(current.id)) {
+      path.push(current.id);
+      current = hasManager(current) ? byId.get(current.manager_id) : undefined;
+    }
+    if (current && path.includes(current.id)) cycles.push(path.slice(path.indexOf(current.id)));
+    path.forEach(id => resolved.add(id));
+  });
+
+  // The first member of a loop is drawn at the top so the rest of the loop hangs below it
+  const rootIds = new Set([
+    ...employees.filter(employee => !hasManager(employee)).map(employee => employee.id),
+    ...orphans.map(employee => employee.id),
+    ...cycles.map(cycle => cycle[0]),
+  ]);
+  const reportsOf = new Map<number, Employee[]>();
+  employees.forEach(employee => {
+    if (rootIds.has(employee.id) || !hasManager(employee)) return;
+    reportsOf.set(employee.manager_id, [...(reportsOf.get(employee.manager_id) ?? []), employee]);
+  });
+
+  const byName = (a: Employee, b: Employee) => a.name.localeCompare(b.name);
+  const toNode = (employee: Employee): OrgNode => ({
+    employee,
+    reports: [...(reportsOf.get(employee.id) ?? [])].sort(byName).map(toNode),
+  });
+
+  return {
+    roots: employees.filter(employee => rootIds.has(employee.id)).sort(byName).map(toNode),
+    orphans,
+    cycles,
+  };
+};
+
+// Ids of every employee with reports, i.e. every node that can be collapsed
+export const collectManagerIds = (nodes: OrgNode[]): number[] =>
+  nodes.flatMap(node => node.reports.length > 0 ? [node.employee.id, ...collectManagerIds(node.reports)] : []);
+
+// Everyone reporting to an employee directly or indirectly; none of them can become that employee's manager
+export const getAllReports = (employees: Employee[], managerId: number): Set<number> => {
+  const reports = new Set<number>();
+  let added = true;
+  while (added) {
+    added = false;
+    employees.forEach(employee => {
+      if (!hasManager(employee) || reports.has(employee.id) || employee.id === managerId) return;
+      if (employee.manager_id === managerId || reports.has(employee.manager_id)) {
+        reports.add(employee.id);
+        added = true;
+      }
+    });
+  }
+  return reports;
+};
@@ -0,0 +1,51 @@
+import type { UserRole } from '../services/api';
+
+export type Permission =
+  | 'employees:create'
+  | 'employees:edit'
+  | 'employees:delete'
+  | 'tasks:create'
+  | 'tasks:edit'
+  | 'tasks:delete'
+  | 'tasks:update_status'
+  | 'tasks:comment'
+  | 'custom_fields:manage'
+  | 'departments:manage'
+  | 'org_chart:view';
+
+// Used when the current user could not be loaded or has no role; admin access is only granted when the backend reports it
+export const DEFAULT_ROLE: UserRole = 'viewer';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  manager: 'Manager',
+  viewer: 'Viewer',
+};
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: [
+    'employees:create',
+    'employees:edit',
+    'employees:delete',
+    'tasks:create',
+    'tasks:edit',
+    'tasks:delete',
+    'tasks:update_status',
+    'tasks:comment',
+    'custom_fields:manage',
+    'departments:manage',
+    'org_chart:view',
+  ],
+  manager: [
+    'employees:edit',
+    'tasks:create',
+    'tasks:edit',
+    'tasks:delete',
+    'tasks:update_status',
+    'tasks:comment',
+  ],
+  viewer: [],
+};
+
+export const roleHasPermission = (role: UserRole, permission: Permission) =>
+  ROLE_PERMISSIONS[role].includes(permission);
@@ -0,0 +1,97 @@
+import dayjs from 'dayjs';
+import type { Dayjs } from 'dayjs';
+import type { Task, TaskRecurrence, RecurrenceFrequency, RecurrenceUnit } from '../services/api';
+
+// Sunday first, matching dayjs `day()` numbering
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  custom: 'Custom',
+};
+
+export const UNIT_LABELS: Record<RecurrenceUnit, string> = {
+  day: 'days',
+  week: 'weeks',
+  month: 'months',
+  year: 'years',
+};
+
+// Rule a new schedule starts from, based on the task's due date
+export const createRecurrence = (frequency: RecurrenceFrequency, dueDate?: string): TaskRecurrence => {
+  const due = dueDate ? dayjs(dueDate) : dayjs();
+  return {
+    frequency,
+    interval: 1,
+    ...(frequency === 'weekly' && { weekdays: [due.day()] }),
+    ...(frequency === 'monthly' && { month_day: due.date() }),
+    ...(frequency === 'custom' && { unit: 'week' as const }),
+  };
+};
+
+// First date after `from` produced by the rule, ignoring its end date and count
+export const nextRuleDate = (rule: TaskRecurrence, from: Dayjs): Dayjs => {
+  const interval = Math.max(1, rule.interval || 1);
+  switch (rule.frequency) {
+    case 'daily':
+      return from.add(interval, 'day');
+    case 'weekly': {
+      const weekdays = rule.weekdays?.length ? [...rule.weekdays].sort((a, b) => a - b) : [from.day()];
+      const laterThisWeek = weekdays.find(day => day > from.day());
+      return laterThisWeek !== undefined
+        ? from.day(laterThisWeek)
+        : from.add(interval, 'week').day(weekdays[0]);
+    }
+    case 'monthly': {
+      // Days past the end of a short month fall on its last day
+      const month = from.add(interval, 'month');
+      return month.date(Math.min(rule.month_day ?? from.date(), month.daysInMonth()));
+    }
+    case 'custom':
+      return from.add(interval, rule.unit ?? 'day');
+  }
+};
+
+// Due date and number of the occurrence that follows a task, or null once the series has ended
+export const getNextOccurrence = (task: Task): { due_date: string; occurrence: number } | null => {
+  const rule = task.recurrence;
+  const anchor = task.scheduled_at ?? task.due_date;
+  if (!rule || !anchor) return null;
+
+  const occurrence = (task.occurrence ?? 1) + 1;
+  if (rule.count && occurrence > rule.count) return null;
+  const next = nextRuleDate(rule, dayjs(anchor));
+  if (rule.until && next.isAfter(dayjs(rule.until).endOf('day'))) return null;
+  return { due_date: next.toISOString(), occurrence };
+};
+
+// E.g. "Every 2 weeks on Mon, Thu, until Mar 01, 2027"
+export const describeRecurrence = (rule: TaskRecurrence) => {
+  const interval = Math.max(1, rule.interval || 1);
+  const every = (unit: string) => interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+  let text: string;
+  switch (rule.frequency) {
+    case 'daily':
+      text = every('day');
+      break;
+    case 'weekly':
+      text = `${every('week')} on ${(rule.weekdays ?? []).map(day => WEEKDAY_LABELS[day]).join(', ')}`;
+      break;
+    case 'monthly':
+      text = `${every('month')} on day ${rule.month_day}`;
+      break;
+    case 'custom':
+      text = interval === 1 ? `Every ${rule.unit ?? 'day'}` : `Every ${interval} ${UNIT_LABELS[rule.unit ?? 'day']}`;
+      break;
+  }
+  if (rule.until) text += `, until ${dayjs(rule.until).format('MMM DD, YYYY')}`;
+  if (rule.count) text += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+  return text;
+};
+
+// Series a task belongs to, named after the id of its first task
+export const getSeriesId = (task: Task) => task.series_id ?? task.id;
+
+export const isRecurring = (task: Task) => !!task.recurrence || !!task.series_id;
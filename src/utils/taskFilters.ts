@@ -0,0 +1,83 @@
+import dayjs from 'dayjs';
+import type { Task, Employee } from '../services/api';
+import { isOverdue } from './taskUtils';
+
+export type QuickFilter = 'overdue' | 'due_this_week' | 'unassigned';
+
+export const QUICK_FILTER_LABELS: Record<QuickFilter, string> = {
+  overdue: 'Overdue',
+  due_this_week: 'Due this week',
+  unassigned: 'Unassigned',
+};
+
+export const parseQuickFilters = (value: string | null): QuickFilter[] =>
+  (value ?? '').split(',').filter((filter): filter is QuickFilter => filter in QUICK_FILTER_LABELS);
+
+export interface TaskFilters {
+  search: string;
+  statuses: Task['status'][];
+  employeeIds: number[];
+  departments: string[];
+  // Label names; a task matches when it carries any of them
+  labels: string[];
+  quick: QuickFilter[];
+}
+
+export const EMPTY_TASK_FILTERS: TaskFilters = {
+  search: '',
+  statuses: [],
+  employeeIds: [],
+  departments: [],
+  labels: [],
+  quick: [],
+};
+
+export const hasActiveFilters = (filters: TaskFilters) =>
+  filters.search.trim() !== '' ||
+  filters.statuses.length > 0 ||
+  filters.employeeIds.length > 0 ||
+  filters.departments.length > 0 ||
+  filters.labels.length > 0 ||
+  filters.quick.length > 0;
+
+// Tasks only carry the assignee's department when the API embeds the employee
+export const getTaskDepartment = (task: Task, employees: Employee[]) =>
+  task.employee?.department ?? employees.find(e => e.id === task.employee_id)?.department;
+
+const matchesQuickFilter = (task: Task, filter: QuickFilter) => {
+  switch (filter) {
+    case 'overdue':
+      return task.status !== 'completed' && !!task.due_date && isOverdue(task.due_date);
+    case 'due_this_week': {
+      if (!task.due_date) return false;
+      const due = dayjs(task.due_date);
+      return !due.isBefore(dayjs().startOf('week')) && !due.isAfter(dayjs().endOf('week'));
+    }
+    case 'unassigned':
+      return !task.employee_id;
+  }
+};
+
+export const filterTasks = (tasks: Task[], filters: TaskFilters, employees: Employee[]): Task[] => {
+  const search = filters.search.trim().toLowerCase();
+
+  return tasks.filter(task => {
+    if (search) {
+      const haystack = `${task.title} ${task.description ?? ''}`.toLowerCase();
+      if (!haystack.includes(search)) return false;
+    }
+    if (filters.statuses.length > 0 && !filters.statuses.includes(task.status)) return false;
+    if (filters.employeeIds.length > 0 && !(task.employee_id && filters.employeeIds.includes(task.employee_id))) {
+      return false;
+    }
+    if (filters.departments.length > 0) {
+      const department = getTaskDepartment(task, employees);
+      if (!department || !filters.departments.includes(department)) return false;
+    }
+    if (filters.labels.length > 0) {
+      const names = (task.labels ?? []).map(label => label.name.toLowerCase());
+      if (!filters.labels.some(name => names.includes(name.toLowerCase()))) return false;
+    }
+    return filters.quick.every(filter => matchesQuickFilter(task, filter));
+  });
+};
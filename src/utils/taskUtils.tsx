@@ -0,0 +1,87 @@
+import { CheckCircle, Schedule, PlayArrow } from '@mui/icons-material';
+import dayjs from 'dayjs';
+import type { Task, ChecklistItem, TaskPriority, TaskLabel, CustomFieldDefinition, CustomFieldValue, CustomFieldType } from '../services/api';
+
+export const TASK_STATUSES: Task['status'][] = ['pending', 'ongoing', 'completed'];
+
+export const STATUS_LABELS: Record<Task['status'], string> = {
+  pending: 'Pending',
+  ongoing: 'Ongoing',
+  completed: 'Completed',
+};
+
+export const getStatusColor = (status: Task['status']): 'default' | 'warning' | 'info' | 'success' => {
+  switch (status) {
+    case 'pending': return 'default';
+    case 'ongoing': return 'info';
+    case 'completed': return 'success';
+  }
+};
+
+export const getStatusIcon = (status: Task['status']) => {
+  switch (status) {
+    case 'pending': return <Schedule />;
+    case 'ongoing': return <PlayArrow />;
+    case 'completed': return <CheckCircle />;
+  }
+};
+
+// Lowest to highest
+export const TASK_PRIORITIES: TaskPriority[] = ['low', 'medium', 'high', 'urgent'];
+
+export const PRIORITY_LABELS: Record<TaskPriority, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  urgent: 'Urgent',
+};
+
+export const getPriorityColor = (priority: TaskPriority): 'default' | 'info' | 'warning' | 'error' => {
+  switch (priority) {
+    case 'low': return 'default';
+    case 'medium': return 'info';
+    case 'high': return 'warning';
+    case 'urgent': return 'error';
+  }
+};
+
+// Colors offered for labels; new labels take the next one in turn
+export const LABEL_COLORS = ['#1976d2', '#388e3c', '#f57c00', '#d32f2f', '#7b1fa2', '#0097a7', '#5d4037', '#616161'];
+
+// Every distinct label used by the given tasks, matched by name regardless of case
+export const collectLabels = (tasks: Task[]): TaskLabel[] => {
+  const labels = new Map<string, TaskLabel>();
+  tasks.forEach(task => task.labels?.forEach(label => {
+    const key = label.name.toLowerCase();
+    if (!labels.has(key)) labels.set(key, label);
+  }));
+  return [...labels.values()].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const isOverdue = (dueDate: string) => {
+  return dayjs(dueDate).isBefore(dayjs()) && dayjs(dueDate).isValid();
+};
+
+export const getChecklistProgress = (checklist: ChecklistItem[] = []) => {
+  const done = checklist.filter(item => item.done).length;
+  return { done, total: checklist.length, open: checklist.length - done };
+};
+
+// Shown before a task with unticked checklist items is marked completed
+export const getOpenChecklistWarning = (task: Task) => {
+  const { open } = getChecklistProgress(task.checklist);
+  return open > 0 ? `"${task.title}" still has ${open} open checklist item${open === 1 ? '' : 's'}.` : null;
+};
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  select: 'Select',
+  date: 'Date',
+};
+
+// Custom field value as shown on cards and in merge dialogs
+export const formatCustomFieldValue = (definition: CustomFieldDefinition, value: CustomFieldValue | undefined) => {
+  if (value === undefined || value === null || value === '') return '—';
+  return definition.type === 'date' ? dayjs(value).format('MMM DD, YYYY') : String(value);
+};
@@ -0,0 +1,19 @@
+export interface TokenPayload {
+  sub?: string;
+  exp?: number;
+  [claim: string]: unknown;
+}
+
+// Decode the payload of a JWT without verifying it (the backend does that)
+export const decodeToken = (token: string): TokenPayload | null => {
+  const [, payload] = token.split('.');
+  if (!payload) return null;
+
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+    return JSON.parse(atob(padded)) as TokenPayload;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,24 @@
+import { ValidationError } from 'yup';
+import type { AnyObject, ObjectSchema } from 'yup';
+
+export type FieldErrors<T> = Partial<Record<keyof T, string>>;
+
+// Validates synchronously and keeps the first message per field, e.g. for CSV rows
+export const getSchemaErrors = <T extends AnyObject>(
+  schema: ObjectSchema<T>,
+  value: unknown,
+  context?: AnyObject
+): FieldErrors<T> => {
+  try {
+    schema.validateSync(value, { abortEarly: false, context });
+    return {};
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw error;
+    const errors: FieldErrors<T> = {};
+    error.inner.forEach(inner => {
+      const field = inner.path as keyof T | undefined;
+      if (field !== undefined && !errors[field]) errors[field] = inner.message;
+    });
+    return errors;
+  }
+};
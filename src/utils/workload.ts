@@ -0,0 +1,89 @@
+import dayjs from 'dayjs';
+import type { Employee, Task } from '../services/api';
+
+// Most open tasks an employee should carry at once
+export const MAX_OPEN_TASKS = 5;
+// Days either side of a due date that count as "around" it
+export const AVAILABILITY_WINDOW_DAYS = 2;
+// Most open tasks an employee should have due around the same date
+export const MAX_TASKS_AROUND_DUE = 3;
+
+export interface EmployeeWorkload {
+  employee: Employee;
+  // Tasks not completed yet
+  open: number;
+  // Earliest due date among the open tasks, which may already be past
+  nearestDue?: string;
+  // Open tasks due within the availability window of the due date being planned
+  aroundDue: number;
+}
+
+export interface AssigneeSuggestion extends EmployeeWorkload {
+  departmentMatch: boolean;
+  // Lower is better
+  score: number;
+  reasons: string[];
+}
+
+const sameDepartment = (a?: string, b?: string) =>
+  !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Open work per employee; the task being edited is left out so it is not counted against its own assignee
+export const getEmployeeWorkloads = (
+  employees: Employee[],
+  tasks: Task[],
+  { taskId, dueDate }: { taskId?: number; dueDate?: string } = {}
+): Map<number, EmployeeWorkload> => {
+  const due = dueDate && dayjs(dueDate).isValid() ? dayjs(dueDate) : null;
+  const workloads = new Map(employees.map(employee => [employee.id, { employee, open: 0, aroundDue: 0 } as EmployeeWorkload]));
+  tasks.forEach(task => {
+    const workload = task.employee_id !== undefined ? workloads.get(task.employee_id) : undefined;
+    if (!workload || task.id === taskId || task.status === 'completed') return;
+    workload.open += 1;
+    if (!task.due_date) return;
+    if (!workload.nearestDue || dayjs(task.due_date).isBefore(workload.nearestDue)) workload.nearestDue = task.due_date;
+    if (due && Math.abs(dayjs(task.due_date).diff(due, 'day', true)) <= AVAILABILITY_WINDOW_DAYS) workload.aroundDue += 1;
+  });
+  return workloads;
+};
+
+// E.g. "3 open tasks · next due Oct 21"
+export const describeWorkload = (workload: EmployeeWorkload) => {
+  const open = `${workload.open} open task${workload.open === 1 ? '' : 's'}`;
+  if (!workload.nearestDue) return open;
+  const overdue = dayjs(workload.nearestDue).isBefore(dayjs());
+  return `${open} · ${overdue ? 'overdue since' : 'next due'} ${dayjs(workload.nearestDue).format('MMM DD')}`;
+};
+
+// Why taking on one more task would overload an employee, or null when it would not
+export const getOverallocationWarning = (workload: EmployeeWorkload) => {
+  const { employee, open, aroundDue } = workload;
+  if (open >= MAX_OPEN_TASKS) {
+    return `${employee.name} already has ${open} open tasks; the limit is ${MAX_OPEN_TASKS}.`;
+  }
+  if (aroundDue >= MAX_TASKS_AROUND_DUE) {
+    return `${employee.name} already has ${aroundDue} tasks due within ${AVAILABILITY_WINDOW_DAYS} days of this due date.`;
+  }
+  return null;
+};
+
+// Employees best placed to take a task first: light workload, the task's department, and free around its due date
+export const suggestAssignees = (
+  workloads: Map<number, EmployeeWorkload>,
+  department?: string
+): AssigneeSuggestion[] =>
+  [...workloads.values()]
+    .map(workload => {
+      const departmentMatch = sameDepartment(workload.employee.department, department);
+      const reasons = [
+        ...(departmentMatch ? [`${workload.employee.department} department`] : []),
+        `${workload.open} open task${workload.open === 1 ? '' : 's'}`,
+        workload.aroundDue === 0
+          ? 'free around the due date'
+          : `${workload.aroundDue} due around the same date`,
+      ];
+      // Tasks due near the same date weigh more than the overall count; a department match outweighs a couple of tasks
+      const score = workload.open + workload.aroundDue * 2 - (departmentMatch ? 3 : 0);
+      return { ...workload, departmentMatch, score, reasons };
+    })
+    .sort((a, b) => a.score - b.score || a.employee.name.localeCompare(b.employee.name));